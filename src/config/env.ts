@@ -28,8 +28,49 @@ for (const filename of candidates) {
 
 /**
  * Statut possible de la salle de sport.
+ * Les statuts autres que 'Ouverte' et 'Fermée' sont accompagnés d'un motif.
  */
-export type GymStatus = 'Ouverte' | 'Fermée';
+export type GymStatus =
+  | 'Ouverte'
+  | 'Fermée'
+  | 'Maintenance'
+  | 'Réservée (événement)'
+  | 'Fermeture exceptionnelle';
+
+/**
+ * Mode de mise à jour du message de statut.
+ * - `edit`: modification du message existant
+ * - `repost`: republication à chaque changement de statut (notification)
+ * - `repost-on-open`: republication uniquement à l'ouverture
+ */
+export type StatusRefreshMode = 'edit' | 'repost' | 'repost-on-open';
+
+/**
+ * Traitement des jours de fermeture dans le planning.
+ * - `channel`: salon "fermé" avec un message explicatif, sans créneaux
+ * - `skip`: aucun salon pour le jour
+ */
+export type ClosedDayMode = 'channel' | 'skip';
+
+/**
+ * Action soumise à une règle de permission.
+ * - `status`: changer le statut de la salle (boutons, statuts particuliers)
+ * - `gate`: demander l'ouverture du portail
+ * - `setup`: publier le statut, synchroniser le planning et gérer les fermetures
+ *   (`/gym status`, `/gym setup`, `/planning close`, `/planning reopen`)
+ */
+export type PermissionAction = 'status' | 'gate' | 'setup';
+
+/**
+ * Règle de permission pour une action.
+ * Les membres ayant la permission "Gérer le serveur" sont toujours autorisés.
+ */
+export interface PermissionRule {
+  /** Noms des rôles autorisés */
+  roles: string[];
+  /** Autoriser tout le monde quand aucun rôle n'est configuré */
+  allowEveryone: boolean;
+}
 
 /**
  * Configuration Twilio pour l'envoi de SMS (notifications portail).
@@ -69,10 +110,42 @@ export interface AppConfig {
     daysAhead: number;
     /** Expression cron pour la maintenance automatique */
     maintenanceCron: string;
-    /** Liste des créneaux horaires */
+    /** Liste des créneaux horaires (utilisée sans fichier d'horaires) */
     timeSlots: string[];
-    /** Décalage horaire en heures */
-    timeOffsetHours: number;
+    /** Chemin du fichier JSON d'horaires par jour de la semaine et par période (null si absent) */
+    scheduleFile: string | null;
+    /** Nombre de places par créneau, sauf capacité propre au créneau (null si illimité) */
+    slotCapacity: number | null;
+    /** Nombre de minutes avant un créneau réservé pour envoyer le rappel en MP */
+    reminderMinutes: number;
+    /** Expression cron du résumé hebdomadaire des inscriptions récurrentes */
+    recurringSummaryCron: string;
+    /** Chemin du fichier de fermetures (JSON ou iCal, null si absent) */
+    holidaysFile: string | null;
+    /** Traitement des jours de fermeture */
+    closedDayMode: ClosedDayMode;
+    /** Délai minimal entre deux appels Discord d'une synchronisation, en millisecondes */
+    syncThrottleMs: number;
+    /** ID du salon où publier la fréquentation des jours archivés (null si désactivé) */
+    archiveChannelId: string | null;
+    /** Message récapitulatif de la semaine, épinglé et mis à jour à chaque changement */
+    overview: {
+      /** ID du salon du message récapitulatif (null si désactivé) */
+      channelId: string | null;
+      /** Afficher les initiales des inscrits de chaque créneau */
+      showInitials: boolean;
+    };
+    /** Alertes des créneaux sans responsable (membre ayant les clés) */
+    coverage: {
+      /** ID du salon du staff où publier le rapport (null si désactivé) */
+      channelId: string | null;
+      /** Noms des rôles des responsables */
+      keyholderRoles: string[];
+      /** Nombre de jours vérifiés, à partir d'aujourd'hui */
+      daysAhead: number;
+      /** Expression cron du rapport quotidien */
+      reportCron: string;
+    };
   };
   /** Configuration du statut de la salle */
   status: {
@@ -80,6 +153,22 @@ export interface AppConfig {
     defaultStatus: GymStatus;
     /** URLs des images pour chaque statut */
     images: Record<GymStatus, string>;
+    /** Fermeture automatique si personne ne confirme que la salle est encore ouverte */
+    autoClose: {
+      /** Heure limite de fermeture (HH:MM, timezone de l'application), null si désactivée */
+      deadline: string | null;
+      /** Nombre de minutes avant l'heure limite pour demander confirmation */
+      warningMinutes: number;
+    };
+    /** Mode de mise à jour du message de statut */
+    refreshMode: StatusRefreshMode;
+    /** ID du salon vocal renommé selon le statut (null si désactivé) */
+    voiceChannelId: string | null;
+    /** Suivi des membres présents à la salle */
+    presence: {
+      /** Durée maximale de présence avant départ automatique, en minutes (0 pour désactiver) */
+      maxStayMinutes: number;
+    };
   };
   /** Configuration Twilio (null si non configuré) */
   twilio: TwilioConfig | null;
@@ -90,11 +179,31 @@ export interface AppConfig {
     /** Fichier de log des signatures */
     logFile: string;
   };
+  /** Règles de permission par action */
+  permissions: Record<PermissionAction, PermissionRule>;
   /** Configuration des rappels de poubelles */
   trash: {
     /** Nom du channel Discord pour les rappels de poubelles */
     channelName: string;
   };
+  /** Configuration de l'API HTTP locale et des webhooks */
+  api: {
+    /** Port du serveur HTTP (null si désactivé) */
+    port: number | null;
+    /** Adresse d'écoute du serveur HTTP (défaut: 127.0.0.1, accessible uniquement depuis la machine) */
+    host: string;
+    /** URL publique du serveur HTTP, pour les liens d'abonnement aux calendriers (null si inconnue) */
+    publicUrl: string | null;
+    /** URLs notifiées à chaque changement de statut */
+    webhookUrls: string[];
+    /** Secret utilisé pour signer les webhooks (HMAC SHA-256) */
+    webhookSecret: string | null;
+  };
+  /** Configuration du stockage local */
+  storage: {
+    /** Dossier contenant les fichiers de données persistées */
+    dataDir: string;
+  };
   /** Timezone de l'application (format IANA) */
   timezone: string;
 }
@@ -176,8 +285,51 @@ function parseNumericEnv(value: string | undefined, defaultValue: number): numbe
   return parsed;
 }
 
+/**
+ * Parse une variable d'environnement contenant une liste séparée par des virgules.
+ * Les éléments vides sont ignorés.
+ *
+ * @param {string | undefined} value - Valeur de la variable d'environnement
+ * @param {string[]} defaultValue - Valeur par défaut si la variable n'est pas définie
+ * @returns {string[]} Liste des éléments
+ */
+function parseListEnv(value: string | undefined, defaultValue: string[]): string[] {
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Parse le mode de mise à jour du message de statut.
+ * Retourne 'repost' (comportement historique) si la valeur est absente ou invalide.
+ *
+ * @param {string | undefined} value - Valeur de la variable d'environnement
+ * @returns {StatusRefreshMode} Mode de mise à jour
+ */
+function parseRefreshMode(value: string | undefined): StatusRefreshMode {
+  const modes: StatusRefreshMode[] = ['edit', 'repost', 'repost-on-open'];
+  return modes.find(mode => mode === value) ?? 'repost';
+}
+
+/**
+ * Parse le traitement des jours de fermeture du planning.
+ * Retourne 'channel' si la valeur est absente ou invalide.
+ *
+ * @param {string | undefined} value - Valeur de la variable d'environnement
+ * @returns {ClosedDayMode} Traitement des jours de fermeture
+ */
+function parseClosedDayMode(value: string | undefined): ClosedDayMode {
+  return value === 'skip' ? 'skip' : 'channel';
+}
+
 /**
  * Créneaux horaires par défaut pour le planning.
+ * Remplacés par le fichier d'horaires si `PLANNING_SCHEDULE_FILE` est défini.
  */
 const planningTimeSlots = [
   '08:00 - 10:00',
@@ -211,7 +363,24 @@ export const config: AppConfig = {
     daysAhead: parseNumericEnv(process.env.PLANNING_DAYS_AHEAD, 7),
     maintenanceCron: process.env.PLANNING_CRON ?? '*/1 11-20 * * *',
     timeSlots: planningTimeSlots,
-    timeOffsetHours: parseNumericEnv(process.env.TIME_OFFSET_HOURS, 1)
+    scheduleFile: process.env.PLANNING_SCHEDULE_FILE || null,
+    slotCapacity: parseNumericEnv(process.env.PLANNING_SLOT_CAPACITY, 0) || null,
+    reminderMinutes: parseNumericEnv(process.env.PLANNING_REMINDER_MINUTES, 60),
+    recurringSummaryCron: process.env.PLANNING_RECURRING_SUMMARY_CRON ?? '0 18 * * 0',
+    holidaysFile: process.env.PLANNING_HOLIDAYS_FILE || null,
+    closedDayMode: parseClosedDayMode(process.env.PLANNING_CLOSED_DAY_MODE),
+    syncThrottleMs: parseNumericEnv(process.env.PLANNING_SYNC_THROTTLE_MS, 250),
+    archiveChannelId: process.env.PLANNING_ARCHIVE_CHANNEL_ID || null,
+    overview: {
+      channelId: process.env.PLANNING_OVERVIEW_CHANNEL_ID || null,
+      showInitials: process.env.PLANNING_OVERVIEW_INITIALS === 'true'
+    },
+    coverage: {
+      channelId: process.env.PLANNING_COVERAGE_CHANNEL_ID || null,
+      keyholderRoles: parseListEnv(process.env.PLANNING_KEYHOLDER_ROLES, []),
+      daysAhead: parseNumericEnv(process.env.PLANNING_COVERAGE_DAYS, 7),
+      reportCron: process.env.PLANNING_COVERAGE_CRON ?? '0 9 * * *'
+    }
   },
   status: {
     defaultStatus: 'Fermée',
@@ -219,7 +388,22 @@ export const config: AppConfig = {
       Ouverte: process.env.GYM_STATUS_OPEN_IMAGE
         ?? 'https://cdn.discordapp.com/attachments/1254003995454996522/1278085289893695559/open.png',
       Fermée: process.env.GYM_STATUS_CLOSED_IMAGE
+        ?? 'https://cdn.discordapp.com/attachments/1254003995454996522/1278085289054572575/close.png',
+      Maintenance: process.env.GYM_STATUS_MAINTENANCE_IMAGE
+        ?? 'https://cdn.discordapp.com/attachments/1254003995454996522/1278085289054572575/close.png',
+      'Réservée (événement)': process.env.GYM_STATUS_EVENT_IMAGE
+        ?? 'https://cdn.discordapp.com/attachments/1254003995454996522/1278085289054572575/close.png',
+      'Fermeture exceptionnelle': process.env.GYM_STATUS_EXCEPTIONAL_CLOSURE_IMAGE
         ?? 'https://cdn.discordapp.com/attachments/1254003995454996522/1278085289054572575/close.png'
+    },
+    autoClose: {
+      deadline: process.env.GYM_AUTO_CLOSE_TIME || null,
+      warningMinutes: parseNumericEnv(process.env.GYM_AUTO_CLOSE_WARNING_MINUTES, 30)
+    },
+    refreshMode: parseRefreshMode(process.env.STATUS_REFRESH_MODE),
+    voiceChannelId: process.env.STATUS_VOICE_CHANNEL_ID || null,
+    presence: {
+      maxStayMinutes: parseNumericEnv(process.env.PRESENCE_MAX_STAY_MINUTES, 180)
     }
   },
   twilio: buildTwilioConfig(),
@@ -227,9 +411,33 @@ export const config: AppConfig = {
     memberRoleName: process.env.MEMBER_ROLE_NAME ?? 'Membre',
     logFile: process.env.RULES_LOG_FILE ?? 'signatures_log.txt'
   },
+  permissions: {
+    status: {
+      roles: parseListEnv(process.env.STATUS_ROLES, ['keyholder']),
+      allowEveryone: false
+    },
+    gate: {
+      roles: parseListEnv(process.env.GATE_ROLES, [process.env.MEMBER_ROLE_NAME ?? 'Membre']),
+      allowEveryone: true
+    },
+    setup: {
+      roles: parseListEnv(process.env.SETUP_ROLES, []),
+      allowEveryone: false
+    }
+  },
   trash: {
     channelName: process.env.TRASH_CHANNEL_NAME ?? 'rappels-poubelles'
   },
+  api: {
+    port: process.env.API_PORT ? parseNumericEnv(process.env.API_PORT, 3000) : null,
+    host: process.env.API_HOST || '127.0.0.1',
+    publicUrl: process.env.API_PUBLIC_URL || null,
+    webhookUrls: parseListEnv(process.env.WEBHOOK_URLS, []),
+    webhookSecret: process.env.WEBHOOK_SECRET || null
+  },
+  storage: {
+    dataDir: process.env.DATA_DIR ?? 'data'
+  },
   timezone: process.env.APP_TIMEZONE ?? 'Europe/Paris'
 };
 
@@ -1,11 +1,14 @@
 import {
+  PermissionFlagsBits,
   REST,
   RESTPostAPIApplicationCommandsJSONBody,
   Routes,
-  SlashCommandBuilder
+  SlashCommandBuilder,
+  SlashCommandStringOption
 } from 'discord.js';
 
 import { config } from '../config/env';
+import { WEEKDAYS } from '../features/planning/planningSchedule';
 import { logger } from '../utils/logger';
 
 /**
@@ -19,11 +22,123 @@ export const enum GymCommandSub {
 }
 
 /**
- * Commande slash principale `/gym` avec ses sous-commandes.
+ * Options de la sous-commande `/gym setup`.
+ */
+export const enum GymSetupOption {
+  /** Afficher les changements sans les appliquer */
+  Preview = 'apercu'
+}
+
+/**
+ * Sous-commandes disponibles pour la commande `/planning`.
+ */
+export const enum PlanningCommandSub {
+  /** S'inscrire sur un créneau */
+  Book = 'book',
+  /** Se désinscrire d'un créneau */
+  Cancel = 'cancel',
+  /** Lister ses inscriptions à venir */
+  Me = 'me',
+  /** Activer ou désactiver les rappels en MP */
+  Reminders = 'reminders',
+  /** Fermer la salle pour un jour */
+  Close = 'close',
+  /** Rouvrir un jour fermé */
+  Reopen = 'reopen',
+  /** Consulter la fréquentation d'un jour passé */
+  Archive = 'archive',
+  /** Exporter le planning ou ses inscriptions au format iCalendar */
+  Ics = 'ics'
+}
+
+/**
+ * Options des sous-commandes `/planning`.
+ */
+export const enum PlanningCommandOption {
+  /** Jour du planning (AAAA-MM-JJ, avec autocomplétion) */
+  Day = 'jour',
+  /** Créneau horaire (avec autocomplétion) */
+  Slot = 'creneau',
+  /** Activation des rappels (`/planning reminders`) */
+  Enabled = 'actif',
+  /** Raison de la fermeture (`/planning close`) */
+  Reason = 'raison',
+  /** Jour de la semaine (`/planning recurring`) */
+  Weekday = 'jour-semaine',
+  /** Calendrier exporté (`/planning ics`) */
+  Calendar = 'calendrier',
+  /** Renouveler le lien d'abonnement (`/planning ics`) */
+  Renew = 'nouveau-lien'
+}
+
+/**
+ * Groupes de sous-commandes de la commande `/planning`.
+ */
+export const enum PlanningCommandGroup {
+  /** Inscriptions récurrentes */
+  Recurring = 'recurring'
+}
+
+/**
+ * Sous-commandes du groupe `/planning recurring`.
+ */
+export const enum RecurringCommandSub {
+  /** Ajouter une inscription récurrente */
+  Add = 'add',
+  /** Supprimer une inscription récurrente */
+  Remove = 'remove',
+  /** Lister ses inscriptions récurrentes */
+  List = 'list',
+  /** Activer ou désactiver le résumé hebdomadaire en MP */
+  Summary = 'summary'
+}
+
+/**
+ * Sous-commandes disponibles pour la commande `/stats`.
+ */
+export const enum StatsCommandSub {
+  /** Statistiques personnelles */
+  Me = 'me',
+  /** Statistiques de la salle */
+  Club = 'club',
+  /** Classement des membres */
+  Top = 'top',
+  /** Consulter l'historique des ouvertures et fermetures */
+  History = 'history'
+}
+
+/**
+ * Options des sous-commandes `/stats`.
+ */
+export const enum StatsCommandOption {
+  /** Période du classement (`/stats top`) */
+  Period = 'periode'
+}
+
+/**
+ * Options de la sous-commande `/stats history`.
+ */
+export const enum StatsHistoryOption {
+  /** Membre dont on veut voir les actions */
+  Member = 'membre',
+  /** Premier jour de la période (AAAA-MM-JJ) */
+  From = 'du',
+  /** Dernier jour de la période (AAAA-MM-JJ) */
+  To = 'au',
+  /** Nombre de transitions à afficher */
+  Limit = 'limite'
+}
+
+/**
+ * Commande slash d'administration `/gym` avec ses sous-commandes.
+ * Visible par défaut avec la permission "Gérer le serveur" uniquement ; les rôles `SETUP_ROLES`
+ * doivent y être autorisés dans les paramètres d'intégration du serveur. La règle de permission
+ * `setup` reste vérifiée à l'exécution.
  */
 const gymCommand = new SlashCommandBuilder()
   .setName('gym')
   .setDescription('Gestion du statut de la salle et du planning')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
   .addSubcommand(sub =>
     sub
       .setName(GymCommandSub.Status)
@@ -33,13 +148,263 @@ const gymCommand = new SlashCommandBuilder()
     sub
       .setName(GymCommandSub.Setup)
       .setDescription('Synchroniser les salons de planning manuellement')
+      .addBooleanOption(option =>
+        option
+          .setName(GymSetupOption.Preview)
+          .setDescription('Afficher les changements nécessaires sans les appliquer (dry-run)')
+      )
+  );
+
+/**
+ * Ajoute l'option obligatoire du jour de la semaine, du lundi au dimanche.
+ *
+ * @param {SlashCommandStringOption} option - Option à configurer
+ * @returns {SlashCommandStringOption} Option configurée
+ */
+function addWeekdayChoices(option: SlashCommandStringOption): SlashCommandStringOption {
+  return option
+    .setName(PlanningCommandOption.Weekday)
+    .setDescription('Jour de la semaine')
+    .setRequired(true)
+    .addChoices(...[...WEEKDAYS.slice(1), WEEKDAYS[0]].map(weekday => ({ name: weekday, value: weekday })));
+}
+
+/**
+ * Commande slash `/planning` pour gérer ses inscriptions sans chercher le salon du jour.
+ * Accessible à tous les membres ; `close` et `reopen` sont contrôlées par la permission `setup`.
+ */
+const planningCommand = new SlashCommandBuilder()
+  .setName('planning')
+  .setDescription('Inscriptions au planning de la salle')
+  .addSubcommand(sub =>
+    sub
+      .setName(PlanningCommandSub.Book)
+      .setDescription('S\'inscrire sur un créneau')
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Day)
+          .setDescription('Jour du créneau')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Slot)
+          .setDescription('Créneau horaire')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(PlanningCommandSub.Cancel)
+      .setDescription('Se désinscrire d\'un créneau')
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Day)
+          .setDescription('Jour du créneau')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Slot)
+          .setDescription('Créneau horaire')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(PlanningCommandSub.Me)
+      .setDescription('Afficher mes inscriptions à venir')
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(PlanningCommandSub.Reminders)
+      .setDescription('Recevoir un rappel en message privé avant mes créneaux')
+      .addBooleanOption(option =>
+        option
+          .setName(PlanningCommandOption.Enabled)
+          .setDescription('Activer ou désactiver les rappels')
+          .setRequired(true)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(PlanningCommandSub.Close)
+      .setDescription('Fermer la salle pour un jour et annuler ses inscriptions')
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Day)
+          .setDescription('Jour à fermer (AAAA-MM-JJ)')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Reason)
+          .setDescription('Raison affichée dans le planning (ex: travaux)')
+          .setMaxLength(200)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(PlanningCommandSub.Reopen)
+      .setDescription('Rouvrir un jour fermé')
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Day)
+          .setDescription('Jour à rouvrir (AAAA-MM-JJ)')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(PlanningCommandSub.Archive)
+      .setDescription('Afficher les inscrits d\'un jour passé')
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Day)
+          .setDescription('Jour archivé (AAAA-MM-JJ)')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(PlanningCommandSub.Ics)
+      .setDescription('Exporter le planning ou mes inscriptions vers mon agenda (fichier .ics)')
+      .addStringOption(option =>
+        option
+          .setName(PlanningCommandOption.Calendar)
+          .setDescription('Calendrier à exporter (défaut: mes inscriptions)')
+          .addChoices(
+            { name: 'Mes inscriptions', value: 'member' },
+            { name: 'Planning de la salle', value: 'club' }
+          )
+      )
+      .addBooleanOption(option =>
+        option
+          .setName(PlanningCommandOption.Renew)
+          .setDescription('Remplacer le lien d\'abonnement (l\'ancien lien ne fonctionnera plus)')
+      )
+  )
+  .addSubcommandGroup(group =>
+    group
+      .setName(PlanningCommandGroup.Recurring)
+      .setDescription('Inscriptions récurrentes, appliquées à chaque nouveau jour de planning')
+      .addSubcommand(sub =>
+        sub
+          .setName(RecurringCommandSub.Add)
+          .setDescription('M\'inscrire chaque semaine sur un créneau')
+          .addStringOption(option => addWeekdayChoices(option))
+          .addStringOption(option =>
+            option
+              .setName(PlanningCommandOption.Slot)
+              .setDescription('Créneau horaire')
+              .setRequired(true)
+              .setAutocomplete(true)
+          )
+      )
+      .addSubcommand(sub =>
+        sub
+          .setName(RecurringCommandSub.Remove)
+          .setDescription('Supprimer une inscription récurrente')
+          .addStringOption(option => addWeekdayChoices(option))
+          .addStringOption(option =>
+            option
+              .setName(PlanningCommandOption.Slot)
+              .setDescription('Créneau horaire')
+              .setRequired(true)
+              .setAutocomplete(true)
+          )
+      )
+      .addSubcommand(sub =>
+        sub
+          .setName(RecurringCommandSub.List)
+          .setDescription('Lister mes inscriptions récurrentes')
+      )
+      .addSubcommand(sub =>
+        sub
+          .setName(RecurringCommandSub.Summary)
+          .setDescription('Recevoir le résumé hebdomadaire de mes inscriptions récurrentes en message privé')
+          .addBooleanOption(option =>
+            option
+              .setName(PlanningCommandOption.Enabled)
+              .setDescription('Activer ou désactiver le résumé')
+              .setRequired(true)
+          )
+      )
+  );
+
+/**
+ * Commande slash `/stats` pour consulter la fréquentation et l'historique d'ouverture de la salle.
+ * Accessible à tous les membres.
+ */
+const statsCommand = new SlashCommandBuilder()
+  .setName('stats')
+  .setDescription('Statistiques de fréquentation de la salle')
+  .addSubcommand(sub =>
+    sub
+      .setName(StatsCommandSub.Me)
+      .setDescription('Afficher mes séances, mes jours et créneaux préférés et ma régularité')
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(StatsCommandSub.Club)
+      .setDescription('Afficher la fréquentation de la salle par mois, jour et créneau')
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(StatsCommandSub.Top)
+      .setDescription('Afficher le classement des membres les plus assidus')
+      .addStringOption(option =>
+        option
+          .setName(StatsCommandOption.Period)
+          .setDescription('Période du classement (défaut: ce mois-ci)')
+          .addChoices(
+            { name: 'Ce mois-ci', value: 'month' },
+            { name: 'Depuis le début', value: 'all' }
+          )
+      )
+  )
+  .addSubcommand(sub =>
+    sub
+      .setName(StatsCommandSub.History)
+      .setDescription('Afficher l\'historique des ouvertures et le temps d\'ouverture')
+      .addUserOption(option =>
+        option
+          .setName(StatsHistoryOption.Member)
+          .setDescription('Limiter aux actions de ce membre')
+      )
+      .addStringOption(option =>
+        option
+          .setName(StatsHistoryOption.From)
+          .setDescription('Premier jour de la période (AAAA-MM-JJ)')
+      )
+      .addStringOption(option =>
+        option
+          .setName(StatsHistoryOption.To)
+          .setDescription('Dernier jour de la période (AAAA-MM-JJ)')
+      )
+      .addIntegerOption(option =>
+        option
+          .setName(StatsHistoryOption.Limit)
+          .setDescription('Nombre de changements de statut à afficher (défaut: 10)')
+          .setMinValue(1)
+          .setMaxValue(25)
+      )
   );
 
 /**
  * Liste des commandes slash à enregistrer sur Discord.
  */
 const commands: RESTPostAPIApplicationCommandsJSONBody[] = [
-  gymCommand.toJSON()
+  gymCommand.toJSON(),
+  planningCommand.toJSON(),
+  statsCommand.toJSON()
 ];
 
 /**
@@ -0,0 +1,91 @@
+import {
+  GuildMember,
+  PermissionFlagsBits,
+  RepliableInteraction
+} from 'discord.js';
+
+import { config, PermissionAction } from '../config/env';
+import { logger } from '../utils/logger';
+
+/**
+ * Libellé de chaque action, utilisé dans les messages de refus.
+ */
+const actionLabels: Record<PermissionAction, string> = {
+  status: 'changer le statut de la salle',
+  gate: 'demander l\'ouverture du portail',
+  setup: 'gérer le statut et le planning'
+};
+
+/**
+ * Vérifie si l'auteur d'une interaction est autorisé à effectuer une action.
+ *
+ * Règles appliquées:
+ * - Les membres ayant la permission "Gérer le serveur" sont toujours autorisés
+ * - Sinon, le membre doit avoir l'un des rôles configurés pour l'action
+ * - Sans rôle configuré, l'action est ouverte à tous si la règle le permet
+ *
+ * @param {RepliableInteraction} interaction - Interaction à vérifier
+ * @param {PermissionAction} action - Action demandée
+ * @returns {boolean} true si l'action est autorisée
+ */
+export function hasPermission(interaction: RepliableInteraction, action: PermissionAction): boolean {
+  const rule = config.permissions[action];
+
+  if (interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    return true;
+  }
+
+  if (rule.roles.length === 0) {
+    return rule.allowEveryone;
+  }
+
+  const member = interaction.member;
+  if (!member || !interaction.guild) {
+    return false;
+  }
+
+  const roleIds = member instanceof GuildMember
+    ? [...member.roles.cache.keys()]
+    : member.roles;
+
+  return roleIds.some(roleId => {
+    const role = interaction.guild?.roles.cache.get(roleId);
+    return role !== undefined && rule.roles.includes(role.name);
+  });
+}
+
+/**
+ * Vérifie qu'une action est autorisée et répond de manière éphémère sinon.
+ *
+ * @param {RepliableInteraction} interaction - Interaction à vérifier
+ * @param {PermissionAction} action - Action demandée
+ * @returns {Promise<boolean>} true si l'action est autorisée, false si l'accès a été refusé
+ *
+ * @example
+ * ```typescript
+ * if (!(await ensurePermission(interaction, 'gate'))) {
+ *   return;
+ * }
+ * ```
+ */
+export async function ensurePermission(
+  interaction: RepliableInteraction,
+  action: PermissionAction
+): Promise<boolean> {
+  if (hasPermission(interaction, action)) {
+    return true;
+  }
+
+  logger.info(`Accès refusé à ${interaction.user.tag} pour l'action "${action}".`);
+
+  const roles = config.permissions[action].roles;
+  const requirement = roles.length > 0
+    ? `Rôle requis : ${roles.map(role => `**${role}**`).join(' ou ')}.`
+    : 'Cette action est réservée aux administrateurs.';
+
+  await interaction.reply({
+    content: `Vous n'avez pas la permission de ${actionLabels[action]}. ${requirement}`,
+    ephemeral: true
+  });
+  return false;
+}
@@ -1,20 +1,66 @@
 import {
+  AttachmentBuilder,
+  AutocompleteInteraction,
   ButtonInteraction,
   ChannelType,
   ChatInputCommandInteraction,
   Client,
+  ModalSubmitInteraction,
+  StringSelectMenuInteraction,
   TextChannel
 } from 'discord.js';
 
 import { config, GymStatus } from '../config/env';
-import { GymStatusButton, GymStatusManager } from '../features/status/gymStatusManager';
+import {
+  GymStatusButton,
+  GymStatusComponent,
+  GymStatusDetails,
+  GymStatusManager,
+  SPECIAL_STATUSES
+} from '../features/status/gymStatusManager';
+import { AutoCloseButton, AutoCloseService } from '../features/status/autoCloseService';
+import { PresenceTracker } from '../features/status/presenceTracker';
+import { StatusMirrorService } from '../features/status/statusMirror';
+import { StatusHistory, StatusHistoryFilter } from '../features/status/statusHistory';
 import { GateService } from '../features/gate/gateService';
 import { RulesService } from '../features/rules/rulesService';
-import { PlanningManager } from '../features/planning/planningManager';
+import { PLANNING_BUTTON_PREFIX, PlanningManager } from '../features/planning/planningManager';
+import { BookingReminderService } from '../features/planning/bookingReminderService';
+import { CalendarFeed, CalendarFeedService } from '../features/planning/calendarFeedService';
+import { CoverageAlertService } from '../features/planning/coverageAlertService';
+import { PlanningOverviewService } from '../features/planning/planningOverviewService';
+import { RecurringBookingService, RecurringButton } from '../features/planning/recurringBookingService';
+import { Weekday } from '../features/planning/planningSchedule';
+import { getTodayKey } from '../features/planning/planningCalendar';
+import {
+  formatReconcileFailure,
+  formatReconcileReport,
+  ReconcileAction
+} from '../features/planning/planningReconciler';
+import { AttendanceStats, StatsPeriod } from '../features/stats/attendanceStats';
 import { TrashReminderService } from '../features/trash/trashReminderService';
-import { GymCommandSub } from '../discord/commands';
+import { StatusApiServer } from '../features/api/statusApiServer';
+import { WebhookNotifier } from '../features/api/webhookNotifier';
+import {
+  GymCommandSub,
+  GymSetupOption,
+  PlanningCommandGroup,
+  PlanningCommandOption,
+  PlanningCommandSub,
+  RecurringCommandSub,
+  StatsCommandOption,
+  StatsCommandSub,
+  StatsHistoryOption
+} from '../discord/commands';
+import { ensurePermission } from '../discord/permissions';
+import { addDays, formatDayLabel, isDayKey, startOfDay } from '../utils/calendar';
 import { logger } from '../utils/logger';
 
+/**
+ * Nombre maximal d'inscriptions listées par `/planning me`.
+ */
+const MAX_LISTED_BOOKINGS = 15;
+
 /**
  * Contexte partagé entre tous les gestionnaires d'événements Discord.
  * Contient les instances de tous les services nécessaires au fonctionnement du bot.
@@ -24,22 +70,47 @@ export interface EventContext {
   client: Client;
   /** Gestionnaire du statut de la salle */
   statusManager: GymStatusManager;
+  /** Historique des changements de statut */
+  statusHistory: StatusHistory;
+  /** Suivi des membres présents à la salle */
+  presenceTracker: PresenceTracker;
+  /** Service de fermeture automatique de la salle */
+  autoCloseService: AutoCloseService;
+  /** Recopie du statut dans la présence du bot et un salon vocal */
+  statusMirror: StatusMirrorService;
   /** Service de gestion du portail (SMS Twilio) */
   gateService: GateService;
   /** Service de gestion des règles et attribution de rôles */
   rulesService: RulesService;
   /** Gestionnaire du planning */
   planningManager: PlanningManager;
+  /** Rappels en MP avant les créneaux réservés */
+  bookingReminderService: BookingReminderService;
+  /** Alertes des créneaux sans responsable */
+  coverageAlertService: CoverageAlertService;
+  /** Inscriptions récurrentes */
+  recurringBookingService: RecurringBookingService;
+  /** Export iCalendar du planning */
+  calendarFeedService: CalendarFeedService;
+  /** Message récapitulatif de la semaine */
+  planningOverviewService: PlanningOverviewService;
   /** Service de rappels de poubelles */
   trashReminderService: TrashReminderService;
+  /** Statistiques de fréquentation */
+  attendanceStats: AttendanceStats;
+  /** Envoi des changements de statut aux webhooks */
+  webhookNotifier: WebhookNotifier;
+  /** API HTTP locale (null si désactivée) */
+  apiServer: StatusApiServer | null;
 }
 
 /**
  * Enregistre tous les événements Discord nécessaires au fonctionnement du bot.
  * 
  * Événements enregistrés:
- * - `ready`: Initialisation du planning au démarrage
- * - `interactionCreate`: Gestion des commandes slash et boutons interactifs
+ * - `ready`: Restauration du statut, fermeture automatique et initialisation du planning au démarrage
+ * - `interactionCreate`: Gestion des commandes slash, boutons, menus et formulaires
+ * - `messageDelete`: Reconstruction des messages de créneaux supprimés
  *
  * @param {EventContext} context - Contexte contenant tous les services nécessaires
  *
@@ -48,14 +119,41 @@ export interface EventContext {
  * registerEvents({
  *   client,
  *   statusManager,
+ *   statusHistory,
+ *   presenceTracker,
+ *   autoCloseService,
+ *   statusMirror,
  *   gateService,
  *   rulesService,
- *   planningManager
+ *   planningManager,
+ *   bookingReminderService,
+ *   coverageAlertService,
+ *   recurringBookingService,
+ *   calendarFeedService,
+ *   planningOverviewService,
+ *   trashReminderService,
+ *   attendanceStats,
+ *   webhookNotifier,
+ *   apiServer
  * });
  * ```
  */
 export function registerEvents(context: EventContext): void {
-  const { client, planningManager, trashReminderService } = context;
+  const {
+    client,
+    statusManager,
+    presenceTracker,
+    autoCloseService,
+    statusMirror,
+    planningManager,
+    bookingReminderService,
+    coverageAlertService,
+    recurringBookingService,
+    planningOverviewService,
+    trashReminderService,
+    webhookNotifier,
+    apiServer
+  } = context;
 
   client.once('ready', async () => {
     if (!client.user) {
@@ -64,12 +162,50 @@ export function registerEvents(context: EventContext): void {
 
     logger.info(`Connecté en tant que ${client.user.tag}`);
 
+    try {
+      await statusManager.restore(client);
+    } catch (error) {
+      logger.error('Erreur lors de la restauration du statut de la salle.', error);
+    }
+
+    presenceTracker.scheduleExpiry(() => statusManager.handlePresenceExpired());
+    autoCloseService.initialize();
+    webhookNotifier.initialize(statusManager);
+
+    try {
+      await statusMirror.initialize();
+    } catch (error) {
+      logger.error('Erreur lors de l\'initialisation de la recopie du statut.', error);
+    }
+
     try {
       await planningManager.initialize();
     } catch (error) {
       logger.error('Erreur lors de l\'initialisation du planning.', error);
     }
 
+    apiServer?.markReady();
+
+    try {
+      await planningOverviewService.initialize();
+    } catch (error) {
+      logger.error('Erreur lors de l\'initialisation du message récapitulatif du planning.', error);
+    }
+
+    try {
+      await bookingReminderService.initialize();
+    } catch (error) {
+      logger.error('Erreur lors de l\'initialisation des rappels de créneaux.', error);
+    }
+
+    recurringBookingService.initialize();
+
+    try {
+      await coverageAlertService.initialize();
+    } catch (error) {
+      logger.error('Erreur lors de l\'initialisation des alertes de créneaux sans responsable.', error);
+    }
+
     try {
       await trashReminderService.initialize();
     } catch (error) {
@@ -81,13 +217,27 @@ export function registerEvents(context: EventContext): void {
     try {
       if (interaction.isChatInputCommand()) {
         await handleChatInputInteraction(interaction, context);
+      } else if (interaction.isAutocomplete()) {
+        await handleAutocompleteInteraction(interaction, context);
       } else if (interaction.isButton()) {
         await handleButtonInteraction(interaction, context);
+      } else if (interaction.isStringSelectMenu()) {
+        await handleSelectMenuInteraction(interaction, context);
+      } else if (interaction.isModalSubmit()) {
+        await handleModalSubmitInteraction(interaction, context);
       }
     } catch (error) {
       logger.error('Erreur lors du traitement de l\'interaction.', error);
     }
   });
+
+  client.on('messageDelete', async message => {
+    try {
+      await planningManager.handleMessageDelete(message);
+    } catch (error) {
+      logger.error('Erreur lors de la reconstruction d\'un créneau supprimé.', error);
+    }
+  });
 }
 
 /**
@@ -96,6 +246,14 @@ export function registerEvents(context: EventContext): void {
  * Commandes gérées:
  * - `/gym status`: Publie le statut de la salle
  * - `/gym setup`: Synchronise le planning manuellement
+ * - `/planning book|cancel|me|reminders`: Gère ses inscriptions au planning et ses rappels
+ * - `/planning recurring add|remove|list|summary`: Gère ses inscriptions récurrentes
+ * - `/planning ics`: Exporte le planning ou ses inscriptions au format iCalendar
+ * - `/stats me|club|top`: Affiche les statistiques de fréquentation
+ * - `/stats history`: Affiche l'historique des ouvertures
+ *
+ * `/gym` est réservée par défaut à la permission "Gérer le serveur" sur Discord ;
+ * ses sous-commandes restent soumises à la règle de permission `setup`.
  *
  * @param {ChatInputCommandInteraction} interaction - L'interaction de commande slash
  * @param {EventContext} context - Contexte avec les services nécessaires
@@ -104,10 +262,24 @@ async function handleChatInputInteraction(
   interaction: ChatInputCommandInteraction,
   context: EventContext
 ): Promise<void> {
+  if (interaction.commandName === 'planning') {
+    await handlePlanningCommand(interaction, context);
+    return;
+  }
+
+  if (interaction.commandName === 'stats') {
+    await handleStatsCommand(interaction, context);
+    return;
+  }
+
   if (interaction.commandName !== 'gym') {
     return;
   }
 
+  if (!(await ensurePermission(interaction, 'setup'))) {
+    return;
+  }
+
   const subCommand = interaction.options.getSubcommand() as GymCommandSub;
 
   if (subCommand === GymCommandSub.Status) {
@@ -116,12 +288,415 @@ async function handleChatInputInteraction(
   }
 
   if (subCommand === GymCommandSub.Setup) {
+    const dryRun = interaction.options.getBoolean(GymSetupOption.Preview) ?? false;
     await interaction.deferReply({ ephemeral: true });
-    await context.planningManager.syncPlanningCommand();
-    await interaction.editReply('Synchronisation du planning terminée.');
+
+    const applied: ReconcileAction[] = [];
+    try {
+      const report = await context.planningManager.syncPlanningCommand(dryRun, action => applied.push(action));
+      await interaction.editReply(formatReconcileReport(report));
+    } catch (error) {
+      logger.error('Erreur lors de la synchronisation manuelle du planning.', error);
+      await interaction.editReply(formatReconcileFailure(applied));
+    }
   }
 }
 
+/**
+ * Gère la commande `/planning`.
+ * Les réponses sont éphémères.
+ *
+ * @param {ChatInputCommandInteraction} interaction - L'interaction de commande
+ * @param {EventContext} context - Contexte avec les services nécessaires
+ */
+async function handlePlanningCommand(
+  interaction: ChatInputCommandInteraction,
+  context: EventContext
+): Promise<void> {
+  const { planningManager, bookingReminderService } = context;
+
+  if (interaction.options.getSubcommandGroup() === PlanningCommandGroup.Recurring) {
+    await handleRecurringCommand(interaction, context);
+    return;
+  }
+
+  const subCommand = interaction.options.getSubcommand() as PlanningCommandSub;
+
+  if (subCommand === PlanningCommandSub.Reminders) {
+    const enabled = interaction.options.getBoolean(PlanningCommandOption.Enabled, true);
+    bookingReminderService.setOptIn(interaction.user.id, enabled);
+
+    await interaction.reply({
+      content: enabled
+        ? `Rappels activés : vous recevrez un message privé ${config.planning.reminderMinutes} min avant chacun de vos créneaux.`
+        : 'Rappels désactivés.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  if (subCommand === PlanningCommandSub.Close || subCommand === PlanningCommandSub.Reopen) {
+    await handlePlanningClosureCommand(interaction, subCommand, planningManager);
+    return;
+  }
+
+  if (subCommand === PlanningCommandSub.Ics) {
+    await handlePlanningIcsCommand(interaction, context.calendarFeedService);
+    return;
+  }
+
+  if (subCommand === PlanningCommandSub.Archive) {
+    const dateKey = interaction.options.getString(PlanningCommandOption.Day, true);
+    const embed = planningManager.getArchiveEmbed(dateKey);
+
+    await interaction.reply(
+      embed
+        ? { embeds: [embed], ephemeral: true }
+        : { content: `Aucune archive pour le ${isDayKey(dateKey) ? formatDayLabel(dateKey) : dateKey}.`, ephemeral: true }
+    );
+    return;
+  }
+
+  if (subCommand === PlanningCommandSub.Me) {
+    const bookings = planningManager.getMemberBookings(interaction.user.id);
+    const lines = bookings.map(booking => {
+      const slot = booking.messageUrl ? `[${booking.slot}](${booking.messageUrl})` : booking.slot;
+      const waitlist = booking.waitlistPosition !== null
+        ? ` (liste d'attente, position ${booking.waitlistPosition})`
+        : '';
+      return `• ${booking.label} — ${slot}${waitlist}`;
+    });
+
+    // Limite pour rester sous la taille maximale d'un message Discord
+    const shown = lines.slice(0, MAX_LISTED_BOOKINGS);
+    if (lines.length > shown.length) {
+      shown.push(`… et ${lines.length - shown.length} autre(s)`);
+    }
+
+    await interaction.reply({
+      content: shown.length > 0
+        ? `Vos inscriptions à venir :\n${shown.join('\n')}`
+        : 'Vous n\'avez aucune inscription à venir.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const ref = {
+    dateKey: interaction.options.getString(PlanningCommandOption.Day, true),
+    slot: interaction.options.getString(PlanningCommandOption.Slot, true)
+  };
+
+  if (!planningManager.hasSlot(ref)) {
+    await interaction.reply({
+      content: 'Créneau introuvable. Choisissez un jour et un créneau proposés par l\'autocomplétion.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+  await interaction.editReply(
+    subCommand === PlanningCommandSub.Cancel
+      ? await planningManager.cancelSlot(ref, interaction.user.id)
+      : await planningManager.bookSlot(ref, interaction.user.id)
+  );
+}
+
+/**
+ * Gère la commande `/stats`.
+ * Les réponses sont éphémères.
+ *
+ * @param {ChatInputCommandInteraction} interaction - L'interaction de commande
+ * @param {EventContext} context - Contexte avec les services nécessaires
+ */
+async function handleStatsCommand(
+  interaction: ChatInputCommandInteraction,
+  context: EventContext
+): Promise<void> {
+  const subCommand = interaction.options.getSubcommand() as StatsCommandSub;
+
+  if (subCommand === StatsCommandSub.History) {
+    await handleStatsHistoryCommand(interaction, context.statusHistory);
+    return;
+  }
+
+  const { attendanceStats } = context;
+  const embed =
+    subCommand === StatsCommandSub.Me
+      ? attendanceStats.buildMemberEmbed(interaction.user.id, getDisplayName(interaction))
+      : subCommand === StatsCommandSub.Club
+        ? attendanceStats.buildClubEmbed()
+        : attendanceStats.buildLeaderboardEmbed(
+            (interaction.options.getString(StatsCommandOption.Period) as StatsPeriod | null) ?? 'month'
+          );
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+/**
+ * Gère la sous-commande `/planning ics`.
+ * Envoie le calendrier en pièce jointe, avec le lien d'abonnement si l'API HTTP est configurée.
+ * Le renouvellement du lien du planning de la salle est réservé aux membres ayant la permission `setup`.
+ *
+ * @param {ChatInputCommandInteraction} interaction - L'interaction de commande
+ * @param {CalendarFeedService} calendarFeeds - Export iCalendar du planning
+ */
+async function handlePlanningIcsCommand(
+  interaction: ChatInputCommandInteraction,
+  calendarFeeds: CalendarFeedService
+): Promise<void> {
+  const feed = (interaction.options.getString(PlanningCommandOption.Calendar) ?? 'member') as CalendarFeed;
+  const renew = interaction.options.getBoolean(PlanningCommandOption.Renew) ?? false;
+
+  if (feed === 'club' && renew && !(await ensurePermission(interaction, 'setup'))) {
+    return;
+  }
+
+  const calendar = feed === 'club'
+    ? calendarFeeds.buildClubCalendar()
+    : calendarFeeds.buildMemberCalendar(interaction.user.id);
+  const url = calendarFeeds.getFeedUrl(feed, interaction.user.id, renew);
+  const description = feed === 'club' ? 'le planning de la salle' : 'vos inscriptions à venir';
+
+  await interaction.reply({
+    content: url
+      ? `Calendrier avec ${description}. Pour un agenda toujours à jour, abonnez-vous à ce lien` +
+        `${feed === 'member' ? ' (personnel, ne le partagez pas)' : ''} :\n<${url}>`
+      : `Calendrier avec ${description}, à importer dans votre agenda.`,
+    files: [new AttachmentBuilder(Buffer.from(calendar, 'utf8'), {
+      name: feed === 'club' ? 'planning-salle.ics' : 'mes-seances.ics'
+    })],
+    ephemeral: true
+  });
+}
+
+/**
+ * Gère les sous-commandes `/planning recurring add|remove|list|summary`.
+ * Les réponses sont éphémères.
+ *
+ * @param {ChatInputCommandInteraction} interaction - L'interaction de commande
+ * @param {EventContext} context - Contexte avec les services nécessaires
+ */
+async function handleRecurringCommand(
+  interaction: ChatInputCommandInteraction,
+  context: EventContext
+): Promise<void> {
+  const { planningManager, recurringBookingService } = context;
+  const subCommand = interaction.options.getSubcommand() as RecurringCommandSub;
+  const userId = interaction.user.id;
+
+  if (subCommand === RecurringCommandSub.Summary) {
+    const enabled = interaction.options.getBoolean(PlanningCommandOption.Enabled, true);
+    recurringBookingService.setSummaryEnabled(userId, enabled);
+
+    await interaction.reply({
+      content: enabled
+        ? 'Résumé activé : vous recevrez chaque semaine vos inscriptions récurrentes en message privé.'
+        : 'Résumé désactivé.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  if (subCommand === RecurringCommandSub.List) {
+    const bookings = recurringBookingService.getMemberBookings(userId);
+    await interaction.reply({
+      content: bookings.length > 0
+        ? `Vos inscriptions récurrentes :\n${bookings.map(booking => `• tous les ${booking.weekday}s — ${booking.slot}`).join('\n')}`
+        : 'Vous n\'avez aucune inscription récurrente.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const weekday = interaction.options.getString(PlanningCommandOption.Weekday, true) as Weekday;
+  const slot = interaction.options.getString(PlanningCommandOption.Slot, true);
+
+  if (subCommand === RecurringCommandSub.Remove) {
+    await interaction.reply({
+      content: recurringBookingService.remove(userId, weekday, slot)
+        ? `Inscription récurrente supprimée : ${weekday} ${slot}. Vos inscriptions déjà faites sont conservées.`
+        : 'Inscription récurrente introuvable.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  if (!planningManager.getWeekdaySlots(weekday).includes(slot)) {
+    await interaction.reply({
+      content: `Créneau introuvable le ${weekday}. Choisissez un créneau proposé par l'autocomplétion.`,
+      ephemeral: true
+    });
+    return;
+  }
+
+  await interaction.reply({
+    content: recurringBookingService.add(userId, weekday, slot)
+      ? `Inscription récurrente ajoutée : vous serez inscrit tous les ${weekday}s sur le créneau ${slot} ` +
+        'à la création de chaque nouveau jour de planning (liste d\'attente si le créneau est complet).'
+      : 'Vous avez déjà cette inscription récurrente.',
+    ephemeral: true
+  });
+}
+
+/**
+ * Gère les sous-commandes `/planning close` et `/planning reopen`.
+ * Réservées aux membres ayant la permission `setup`.
+ *
+ * @param {ChatInputCommandInteraction} interaction - L'interaction de commande
+ * @param {PlanningCommandSub.Close | PlanningCommandSub.Reopen} subCommand - Sous-commande utilisée
+ * @param {PlanningManager} planningManager - Gestionnaire du planning
+ */
+async function handlePlanningClosureCommand(
+  interaction: ChatInputCommandInteraction,
+  subCommand: PlanningCommandSub.Close | PlanningCommandSub.Reopen,
+  planningManager: PlanningManager
+): Promise<void> {
+  if (!(await ensurePermission(interaction, 'setup'))) {
+    return;
+  }
+
+  const dateKey = interaction.options.getString(PlanningCommandOption.Day, true);
+  if (!isDayKey(dateKey)) {
+    await interaction.reply({
+      content: `Date invalide: \`${dateKey}\`. Utilisez le format AAAA-MM-JJ.`,
+      ephemeral: true
+    });
+    return;
+  }
+  if (dateKey < getTodayKey(config.timezone)) {
+    await interaction.reply({ content: 'Ce jour est déjà passé.', ephemeral: true });
+    return;
+  }
+
+  const label = formatDayLabel(dateKey);
+  await interaction.deferReply({ ephemeral: true });
+
+  if (subCommand === PlanningCommandSub.Reopen) {
+    await interaction.editReply(
+      (await planningManager.reopenDay(dateKey))
+        ? `La salle est rouverte le ${label}.`
+        : `La salle n'est pas fermée le ${label}.`
+    );
+    return;
+  }
+
+  const reason = interaction.options.getString(PlanningCommandOption.Reason)?.trim() || null;
+  await planningManager.closeDay(dateKey, reason, interaction.user.id);
+  await interaction.editReply(
+    `La salle est fermée le ${label}${reason ? ` (${reason})` : ''}. ` +
+    'Les inscriptions de ce jour sont annulées et les membres concernés prévenus.'
+  );
+}
+
+/**
+ * Gère l'autocomplétion des options `jour` et `creneau` des sous-commandes `/planning`.
+ * Les jours proposés sont ceux de la fenêtre de planning (les jours fermés sont signalés),
+ * ou les jours archivés pour `/planning archive` ; les créneaux, ceux du jour choisi.
+ *
+ * @param {AutocompleteInteraction} interaction - L'interaction d'autocomplétion
+ * @param {EventContext} context - Contexte avec les services nécessaires
+ */
+async function handleAutocompleteInteraction(
+  interaction: AutocompleteInteraction,
+  context: EventContext
+): Promise<void> {
+  if (interaction.commandName !== 'planning') {
+    await interaction.respond([]);
+    return;
+  }
+
+  const focused = interaction.options.getFocused(true);
+  const query = focused.value.toLowerCase();
+  let choices: Array<{ name: string; value: string }> = [];
+
+  if (
+    focused.name === PlanningCommandOption.Day &&
+    interaction.options.getSubcommand() === PlanningCommandSub.Archive
+  ) {
+    choices = context.planningManager
+      .getArchivedDays()
+      .map(day => ({ name: `${day.label} ${day.dateKey.slice(0, 4)}`, value: day.dateKey }));
+  } else if (focused.name === PlanningCommandOption.Day) {
+    choices = context.planningManager
+      .getUpcomingDays()
+      .map(day => ({
+        name: context.planningManager.getClosure(day.dateKey) ? `${day.label} (fermé)` : day.label,
+        value: day.dateKey
+      }));
+  } else if (
+    focused.name === PlanningCommandOption.Slot &&
+    interaction.options.getSubcommandGroup() === PlanningCommandGroup.Recurring
+  ) {
+    const weekday = interaction.options.getString(PlanningCommandOption.Weekday) as Weekday | null;
+    const slots = interaction.options.getSubcommand() === RecurringCommandSub.Remove
+      ? context.recurringBookingService
+          .getMemberBookings(interaction.user.id)
+          .filter(booking => !weekday || booking.weekday === weekday)
+          .map(booking => booking.slot)
+      : weekday ? context.planningManager.getWeekdaySlots(weekday) : [];
+    choices = [...new Set(slots)].map(slot => ({ name: slot, value: slot }));
+  } else if (focused.name === PlanningCommandOption.Slot) {
+    const dateKey = interaction.options.getString(PlanningCommandOption.Day) ?? '';
+    choices = context.planningManager.getDaySlots(dateKey).map(({ slot, count, capacity }) => ({
+      name: `${slot} — ${capacity !== null ? `${count}/${capacity}` : `${count} inscrit(s)`}`,
+      value: slot
+    }));
+  }
+
+  await interaction.respond(
+    choices.filter(choice => choice.name.toLowerCase().includes(query)).slice(0, 25)
+  );
+}
+
+/**
+ * Gère la sous-commande `/stats history`.
+ * Affiche les derniers changements de statut et le temps d'ouverture,
+ * filtrés par membre et par période.
+ *
+ * @param {ChatInputCommandInteraction} interaction - L'interaction de commande
+ * @param {StatusHistory} statusHistory - Historique des changements de statut
+ */
+async function handleStatsHistoryCommand(
+  interaction: ChatInputCommandInteraction,
+  statusHistory: StatusHistory
+): Promise<void> {
+  const member = interaction.options.getUser(StatsHistoryOption.Member);
+  const from = interaction.options.getString(StatsHistoryOption.From);
+  const to = interaction.options.getString(StatsHistoryOption.To);
+  const limit = interaction.options.getInteger(StatsHistoryOption.Limit) ?? 10;
+
+  const invalidDate = [from, to].find(value => value !== null && !isDayKey(value));
+  if (invalidDate) {
+    await interaction.reply({
+      content: `Date invalide: \`${invalidDate}\`. Utilisez le format AAAA-MM-JJ.`,
+      ephemeral: true
+    });
+    return;
+  }
+
+  const filter: StatusHistoryFilter = {};
+  const scope: string[] = [];
+
+  if (member) {
+    filter.actorId = member.id;
+    scope.push(`Membre : <@${member.id}>`);
+  }
+  if (from) {
+    filter.from = startOfDay(from, config.timezone);
+  }
+  if (to) {
+    filter.to = startOfDay(addDays(to, 1), config.timezone);
+  }
+  scope.push(`Période : ${from ? `du ${from}` : 'depuis le début'} ${to ? `au ${to}` : 'à aujourd\'hui'}`);
+
+  await interaction.reply({
+    embeds: [statusHistory.buildReportEmbed(filter, limit, scope.join('\n'))],
+    ephemeral: true
+  });
+}
+
 /**
  * Gère la sous-commande `/gym status`.
  * Publie ou rafraîchit le message de statut de la salle dans le salon courant.
@@ -147,13 +722,55 @@ async function handleGymStatusCommand(
 }
 
 /**
- * Gère les interactions de type bouton.
- * 
+ * Gestionnaire d'un bouton.
+ */
+type ButtonHandler = (interaction: ButtonInteraction, context: EventContext) => Promise<void>;
+
+/**
+ * Boutons gérés, indexés par préfixe d'identifiant.
+ * Un identifiant correspond à un préfixe s'il lui est égal ou s'il commence par `<préfixe>:`,
+ * ce qui permet d'encoder des paramètres dans l'identifiant (ex: `planning:book:2025-01-15:1800-2000`).
+ *
  * Boutons gérés:
  * - `openGym`: Ouvre la salle
  * - `closeGym`: Ferme la salle
- * - `openGate`: Demande l'ouverture du portail
+ * - `openGate`: Demande l'ouverture du portail (règle de permission `gate`)
+ * - `checkIn` / `checkOut`: Signale son arrivée ou son départ de la salle
+ * - `confirmStillOpen`: Confirme que la salle est encore ouverte (fermeture automatique)
  * - `acceptRules`: Accepte les règles et attribue le rôle membre
+ * - `planning:*`: Inscription et désinscription sur un créneau du planning
+ */
+const BUTTON_ROUTES: Array<[prefix: string, handler: ButtonHandler]> = [
+  [GymStatusButton.Open, (interaction, context) =>
+    updateGymStatus(interaction, context.statusManager, 'Ouverte', getDisplayName(interaction))],
+  [GymStatusButton.Close, (interaction, context) =>
+    updateGymStatus(interaction, context.statusManager, 'Fermée', getDisplayName(interaction))],
+  [GymStatusButton.Gate, async (interaction, context) => {
+    if (await ensurePermission(interaction, 'gate')) {
+      await context.gateService.handleOpenGate(interaction);
+    }
+  }],
+  [GymStatusButton.CheckIn, (interaction, context) =>
+    handlePresenceButton(interaction, context.statusManager, getDisplayName(interaction))],
+  [GymStatusButton.CheckOut, (interaction, context) =>
+    handlePresenceButton(interaction, context.statusManager, getDisplayName(interaction))],
+  [AutoCloseButton.Confirm, async (interaction, context) => {
+    // La confirmation est demandée en MP à la dernière personne ayant changé le statut
+    if (
+      interaction.user.id === context.statusManager.lastActorId ||
+      (await ensurePermission(interaction, 'status'))
+    ) {
+      await context.autoCloseService.handleConfirm(interaction);
+    }
+  }],
+  ['acceptRules', (interaction, context) => context.rulesService.handleAcceptRules(interaction)],
+  [PLANNING_BUTTON_PREFIX, (interaction, context) => context.planningManager.handleButton(interaction)],
+  [RecurringButton.SummaryOptOut, (interaction, context) => context.recurringBookingService.handleOptOut(interaction)]
+];
+
+/**
+ * Gère les interactions de type bouton en les aiguillant selon le préfixe de leur identifiant.
+ * Voir `BUTTON_ROUTES` pour la liste des boutons gérés.
  *
  * @param {ButtonInteraction} interaction - L'interaction de bouton
  * @param {EventContext} context - Contexte avec les services nécessaires
@@ -162,44 +779,160 @@ async function handleButtonInteraction(
   interaction: ButtonInteraction,
   context: EventContext
 ): Promise<void> {
-  const displayName = interaction.member && 'nickname' in interaction.member
-    ? (interaction.member as { nickname?: string }).nickname ?? interaction.user.username
-    : interaction.user.username;
+  const { customId } = interaction;
+  const route = BUTTON_ROUTES.find(
+    ([prefix]) => customId === prefix || customId.startsWith(`${prefix}:`)
+  );
 
-  switch (interaction.customId) {
-    case GymStatusButton.Open:
-      await updateGymStatus(interaction, context.statusManager, 'Ouverte', displayName);
-      break;
-    case GymStatusButton.Close:
-      await updateGymStatus(interaction, context.statusManager, 'Fermée', displayName);
-      break;
-    case GymStatusButton.Gate:
-      await context.gateService.handleOpenGate(interaction);
-      break;
-    case 'acceptRules':
-      await context.rulesService.handleAcceptRules(interaction);
-      break;
-    default:
-      logger.debug(`Bouton non géré: ${interaction.customId}`);
-      break;
+  if (!route) {
+    logger.debug(`Bouton non géré: ${customId}`);
+    return;
   }
+
+  await route[1](interaction, context);
+}
+
+/**
+ * Gère les boutons "J'arrive" et "Je pars" du message de statut.
+ * Met à jour le message sans le republier ; ne répond que si l'action est impossible.
+ *
+ * @param {ButtonInteraction} interaction - L'interaction de bouton
+ * @param {GymStatusManager} statusManager - Gestionnaire du statut
+ * @param {string} displayName - Nom affiché du membre
+ */
+async function handlePresenceButton(
+  interaction: ButtonInteraction,
+  statusManager: GymStatusManager,
+  displayName: string
+): Promise<void> {
+  const isCheckIn = interaction.customId === GymStatusButton.CheckIn;
+
+  if (isCheckIn && statusManager.currentStatus !== 'Ouverte') {
+    await interaction.reply({ content: 'La salle n\'est pas ouverte.', ephemeral: true });
+    return;
+  }
+
+  const changed = isCheckIn
+    ? statusManager.checkIn(interaction.user.id, displayName)
+    : statusManager.checkOut(interaction.user.id);
+
+  if (!changed) {
+    await interaction.reply({
+      content: isCheckIn ? 'Vous êtes déjà indiqué comme présent.' : 'Vous n\'êtes pas indiqué comme présent.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  await interaction.deferUpdate();
+  await statusManager.editStatusMessage();
+}
+
+/**
+ * Gère les interactions de type menu de sélection.
+ *
+ * Menus gérés:
+ * - `gymStatusSelect`: Ouvre le formulaire de motif du statut particulier choisi
+ *
+ * @param {StringSelectMenuInteraction} interaction - L'interaction de menu
+ * @param {EventContext} context - Contexte avec les services nécessaires
+ */
+async function handleSelectMenuInteraction(
+  interaction: StringSelectMenuInteraction,
+  context: EventContext
+): Promise<void> {
+  if (interaction.customId !== GymStatusComponent.Select) {
+    logger.debug(`Menu non géré: ${interaction.customId}`);
+    return;
+  }
+
+  const status = interaction.values[0] as GymStatus;
+  if (!SPECIAL_STATUSES.includes(status)) {
+    await interaction.reply({ content: 'Statut inconnu.', ephemeral: true });
+    return;
+  }
+
+  if (!(await ensurePermission(interaction, 'status'))) {
+    return;
+  }
+
+  await interaction.showModal(context.statusManager.buildReasonModal(status));
+}
+
+/**
+ * Gère les soumissions de formulaires (modals).
+ *
+ * Formulaires gérés:
+ * - `gymStatusReason:<statut>`: Passe la salle dans un statut particulier avec son motif
+ *
+ * @param {ModalSubmitInteraction} interaction - L'interaction de formulaire
+ * @param {EventContext} context - Contexte avec les services nécessaires
+ */
+async function handleModalSubmitInteraction(
+  interaction: ModalSubmitInteraction,
+  context: EventContext
+): Promise<void> {
+  const [prefix, status] = interaction.customId.split(':');
+  if (prefix !== GymStatusComponent.ReasonModal) {
+    logger.debug(`Formulaire non géré: ${interaction.customId}`);
+    return;
+  }
+
+  if (!SPECIAL_STATUSES.includes(status as GymStatus)) {
+    await interaction.reply({ content: 'Statut inconnu.', ephemeral: true });
+    return;
+  }
+
+  const details: GymStatusDetails = {
+    reason: interaction.fields.getTextInputValue(GymStatusComponent.ReasonInput).trim() || null,
+    expectedEnd: interaction.fields.getTextInputValue(GymStatusComponent.ExpectedEndInput).trim() || null
+  };
+
+  await updateGymStatus(
+    interaction,
+    context.statusManager,
+    status as GymStatus,
+    getDisplayName(interaction),
+    details
+  );
+}
+
+/**
+ * Récupère le nom affiché de l'auteur d'une interaction (surnom sur le serveur ou nom d'utilisateur).
+ *
+ * @param {ButtonInteraction | ModalSubmitInteraction | ChatInputCommandInteraction} interaction - L'interaction
+ * @returns {string} Nom affiché
+ */
+function getDisplayName(
+  interaction: ButtonInteraction | ModalSubmitInteraction | ChatInputCommandInteraction
+): string {
+  return interaction.member && 'nickname' in interaction.member
+    ? (interaction.member as { nickname?: string }).nickname ?? interaction.user.username
+    : interaction.user.username;
 }
 
 /**
  * Met à jour le statut de la salle et rafraîchit le message.
+ * Vérifie la règle de permission `status` avant toute modification.
  * N'affiche un message que s'il y a une erreur.
  * 
- * @param {ButtonInteraction} interaction - L'interaction de bouton
+ * @param {ButtonInteraction | ModalSubmitInteraction} interaction - L'interaction de bouton ou de formulaire
  * @param {GymStatusManager} statusManager - Gestionnaire du statut
- * @param {GymStatus} status - Nouveau statut ('Ouverte' ou 'Fermée')
+ * @param {GymStatus} status - Nouveau statut
  * @param {string} actor - Nom de l'utilisateur qui effectue l'action
+ * @param {GymStatusDetails} details - Motif et fin prévue d'un statut particulier
  */
 async function updateGymStatus(
-  interaction: ButtonInteraction,
+  interaction: ButtonInteraction | ModalSubmitInteraction,
   statusManager: GymStatusManager,
   status: GymStatus,
-  actor: string
+  actor: string,
+  details?: GymStatusDetails
 ): Promise<void> {
+  if (!(await ensurePermission(interaction, 'status'))) {
+    return;
+  }
+
   try {
     if (!statusManager.hasStatusMessage) {
       await interaction.reply({
@@ -210,9 +943,14 @@ async function updateGymStatus(
     }
 
     // Différer la mise à jour pour éviter un message visible
-    await interaction.deferUpdate();
+    if (interaction.isButton() || interaction.isFromMessage()) {
+      await interaction.deferUpdate();
+    } else {
+      await interaction.deferReply({ ephemeral: true });
+      await interaction.deleteReply();
+    }
 
-    statusManager.updateStatus(status, actor);
+    statusManager.updateStatus(status, actor, interaction.user.id, details);
     await statusManager.refreshStatusMessage();
   } catch (error) {
     logger.error('Erreur lors de la mise à jour du statut de la salle.', error);
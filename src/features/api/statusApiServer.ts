@@ -0,0 +1,234 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+
+import { logger } from '../../utils/logger';
+import { CalendarFeed, CalendarFeedService } from '../planning/calendarFeedService';
+import { PlanningManager } from '../planning/planningManager';
+import { GymStatusManager } from '../status/gymStatusManager';
+
+/**
+ * Réponse d'une route de l'API.
+ */
+interface ApiResponse {
+  /** Code HTTP */
+  status: number;
+  /** Corps de la réponse, sérialisé en JSON sauf si un type de contenu est indiqué */
+  body: unknown;
+  /** Type de contenu d'un corps texte (ex: calendrier iCalendar) */
+  contentType?: string;
+}
+
+/**
+ * Gestionnaire d'une route de l'API.
+ */
+type RouteHandler = (request: IncomingMessage) => Promise<ApiResponse>;
+
+/**
+ * Serveur HTTP local exposant l'état de la salle (site web, écran d'entrée).
+ *
+ * Routes disponibles (GET uniquement):
+ * - `/status`: Statut actuel de la salle
+ * - `/planning/today`: Inscriptions du jour
+ * - `/calendar/club.ics?token=…`: Calendrier iCalendar de la salle
+ * - `/calendar/member.ics?token=…`: Calendrier iCalendar des inscriptions d'un membre
+ *
+ * Les routes répondent 503 tant que le statut et le planning ne sont pas chargés (`markReady`).
+ * Les calendriers ne sont accessibles qu'avec le jeton donné par `/planning ics`.
+ * Le serveur n'écoute que sur l'adresse indiquée (par défaut la machine locale) ;
+ * les inscriptions du jour ne contiennent que les noms affichés, sans ID Discord.
+ *
+ * @example
+ * ```typescript
+ * const apiServer = new StatusApiServer(statusManager, planningManager, calendarFeeds);
+ * await apiServer.start(3000, '127.0.0.1');
+ * // Une fois le statut restauré et le planning initialisé
+ * apiServer.markReady();
+ * ```
+ */
+export class StatusApiServer {
+  /** Serveur HTTP (null tant qu'il n'est pas démarré) */
+  private server: Server | null = null;
+  /** Routes disponibles, indexées par chemin */
+  private readonly routes = new Map<string, RouteHandler>();
+  /** true une fois le statut et le planning chargés */
+  private ready = false;
+
+  /**
+   * Crée une nouvelle instance du serveur d'API.
+   *
+   * @param {GymStatusManager} statusManager - Gestionnaire du statut de la salle
+   * @param {PlanningManager} planningManager - Gestionnaire du planning
+   * @param {CalendarFeedService} calendarFeeds - Export iCalendar du planning
+   */
+  constructor(
+    private readonly statusManager: GymStatusManager,
+    private readonly planningManager: PlanningManager,
+    private readonly calendarFeeds: CalendarFeedService
+  ) {
+    this.routes.set('/status', async () => this.getStatus());
+    this.routes.set('/planning/today', async () => this.getTodayPlanning());
+    this.routes.set('/calendar/club.ics', async request => this.getCalendar('club', request));
+    this.routes.set('/calendar/member.ics', async request => this.getCalendar('member', request));
+  }
+
+  /**
+   * Démarre le serveur HTTP sur le port et l'adresse donnés.
+   *
+   * @param {number} port - Port d'écoute
+   * @param {string} host - Adresse d'écoute (ex: "127.0.0.1", "0.0.0.0" pour toutes les interfaces)
+   * @returns {Promise<void>} Promise qui se résout quand le serveur écoute
+   * @throws {Error} Si le port est indisponible
+   */
+  start(port: number, host: string): Promise<void> {
+    const server = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        logger.error('Erreur lors du traitement d\'une requête HTTP.', error);
+        this.send(response, { status: 500, body: { error: 'Erreur interne' } });
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        this.server = server;
+        logger.info(`API HTTP démarrée sur ${host}:${port}.`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Indique que le statut et le planning sont chargés : les routes cessent de répondre 503.
+   */
+  markReady(): void {
+    this.ready = true;
+  }
+
+  /**
+   * Arrête le serveur HTTP.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le serveur est arrêté
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+
+    return new Promise(resolve => {
+      if (!server) {
+        resolve();
+        return;
+      }
+      server.close(() => resolve());
+    });
+  }
+
+  /**
+   * Aiguille une requête vers la route correspondante.
+   *
+   * @param {IncomingMessage} request - Requête HTTP
+   * @param {ServerResponse} response - Réponse HTTP
+   * @private
+   */
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== 'GET') {
+      this.send(response, { status: 405, body: { error: 'Méthode non autorisée' } });
+      return;
+    }
+
+    // Avant la connexion à Discord, le statut et le planning ne sont pas encore chargés
+    if (!this.ready) {
+      this.send(response, { status: 503, body: { error: 'Service en cours de démarrage' } });
+      return;
+    }
+
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    const handler = this.routes.get(pathname.replace(/\/+$/, '') || '/');
+
+    if (!handler) {
+      this.send(response, { status: 404, body: { error: 'Route inconnue' } });
+      return;
+    }
+
+    this.send(response, await handler(request));
+  }
+
+  /**
+   * Construit la réponse de la route `/status`.
+   *
+   * @returns {ApiResponse} Statut actuel de la salle
+   * @private
+   */
+  private getStatus(): ApiResponse {
+    const snapshot = this.statusManager.snapshot;
+
+    return {
+      status: 200,
+      body: {
+        status: snapshot.status,
+        reason: snapshot.details.reason,
+        expectedEnd: snapshot.details.expectedEnd,
+        lastActor: snapshot.lastActor,
+        lastActionAt: snapshot.lastActionAt?.toISOString() ?? null,
+        presentCount: snapshot.present.length,
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  /**
+   * Construit la réponse de la route `/planning/today`.
+   *
+   * @returns {Promise<ApiResponse>} Inscriptions du jour
+   * @private
+   */
+  private async getTodayPlanning(): Promise<ApiResponse> {
+    const planning = await this.planningManager.getTodayPlanning();
+    if (!planning) {
+      return { status: 404, body: { error: 'Aucun planning pour aujourd\'hui' } };
+    }
+
+    return {
+      status: 200,
+      body: { ...planning, timestamp: new Date().toISOString() }
+    };
+  }
+
+  /**
+   * Construit la réponse des routes `/calendar/*.ics`.
+   *
+   * @param {CalendarFeed} feed - Calendrier demandé
+   * @param {IncomingMessage} request - Requête HTTP, contenant le jeton en paramètre `token`
+   * @returns {ApiResponse} Calendrier iCalendar
+   * @private
+   */
+  private getCalendar(feed: CalendarFeed, request: IncomingMessage): ApiResponse {
+    const token = new URL(request.url ?? '/', 'http://localhost').searchParams.get('token') ?? '';
+    const calendar = this.calendarFeeds.buildCalendarForToken(feed, token);
+    if (calendar === null) {
+      return { status: 404, body: { error: 'Calendrier introuvable' } };
+    }
+
+    return { status: 200, body: calendar, contentType: 'text/calendar; charset=utf-8' };
+  }
+
+  /**
+   * Envoie une réponse JSON, ou texte si un type de contenu est indiqué.
+   *
+   * @param {ServerResponse} response - Réponse HTTP
+   * @param {ApiResponse} apiResponse - Code et corps de la réponse
+   * @private
+   */
+  private send(response: ServerResponse, apiResponse: ApiResponse): void {
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+
+    response.writeHead(apiResponse.status, {
+      'Content-Type': apiResponse.contentType ?? 'application/json; charset=utf-8',
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'no-store'
+    });
+    response.end(apiResponse.contentType ? String(apiResponse.body) : JSON.stringify(apiResponse.body));
+  }
+}
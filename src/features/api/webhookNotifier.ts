@@ -0,0 +1,129 @@
+import { createHmac } from 'node:crypto';
+
+import { GymStatus } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { GymStatusManager, GymStatusSnapshot } from '../status/gymStatusManager';
+
+/**
+ * Délai maximal d'un appel de webhook.
+ */
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * En-tête contenant la signature HMAC SHA-256 du corps de la requête.
+ */
+export const SIGNATURE_HEADER = 'X-Gym-Signature';
+
+/**
+ * Envoie chaque changement de statut de la salle aux webhooks configurés.
+ *
+ * Chaque requête est un POST JSON signé : l'en-tête `X-Gym-Signature` vaut
+ * `sha256=<hex>`, HMAC SHA-256 du corps brut avec le secret partagé.
+ * Sans secret, les webhooks ne sont pas activés.
+ *
+ * @example
+ * ```typescript
+ * const notifier = new WebhookNotifier(urls, secret);
+ * notifier.initialize(statusManager);
+ * ```
+ */
+export class WebhookNotifier {
+  /** Dernier statut notifié */
+  private lastStatus: GymStatus | null = null;
+  /** Date de la dernière action notifiée */
+  private lastActionAt: number | null = null;
+
+  /**
+   * Crée une nouvelle instance du notificateur.
+   *
+   * @param {string[]} urls - URLs à notifier
+   * @param {string | null} secret - Secret de signature (webhooks désactivés si null)
+   */
+  constructor(
+    private readonly urls: string[],
+    private readonly secret: string | null
+  ) {}
+
+  /**
+   * S'abonne aux changements de statut.
+   * Les changements de présence seuls ne sont pas notifiés.
+   * Ne fait rien si aucun secret de signature n'est défini.
+   *
+   * @param {GymStatusManager} statusManager - Gestionnaire du statut de la salle
+   */
+  initialize(statusManager: GymStatusManager): void {
+    if (this.urls.length === 0) {
+      return;
+    }
+
+    if (!this.secret) {
+      logger.error('WEBHOOK_SECRET non défini : les webhooks de statut sont désactivés (les requêtes doivent être signées).');
+      return;
+    }
+
+    const current = statusManager.snapshot;
+    this.lastStatus = current.status;
+    this.lastActionAt = current.lastActionAt?.getTime() ?? null;
+
+    statusManager.onChange(snapshot => {
+      const actionAt = snapshot.lastActionAt?.getTime() ?? null;
+      if (actionAt === this.lastActionAt) {
+        return;
+      }
+
+      const previousStatus = this.lastStatus;
+      this.lastStatus = snapshot.status;
+      this.lastActionAt = actionAt;
+
+      void this.notify(snapshot, previousStatus);
+    });
+
+    logger.info(`${this.urls.length} webhook(s) de statut configuré(s).`);
+  }
+
+  /**
+   * Envoie un changement de statut à tous les webhooks.
+   *
+   * @param {GymStatusSnapshot} snapshot - Nouveau statut
+   * @param {GymStatus | null} previousStatus - Statut précédent
+   * @returns {Promise<void>} Promise qui se résout quand tous les envois sont terminés
+   * @private
+   */
+  private async notify(snapshot: GymStatusSnapshot, previousStatus: GymStatus | null): Promise<void> {
+    if (!this.secret) {
+      return;
+    }
+
+    const body = JSON.stringify({
+      event: 'status.changed',
+      status: snapshot.status,
+      previousStatus,
+      reason: snapshot.details.reason,
+      expectedEnd: snapshot.details.expectedEnd,
+      lastActor: snapshot.lastActor,
+      timestamp: (snapshot.lastActionAt ?? new Date()).toISOString()
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [SIGNATURE_HEADER]: `sha256=${createHmac('sha256', this.secret).update(body).digest('hex')}`
+    };
+
+    await Promise.all(this.urls.map(async url => {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+
+        if (!response.ok) {
+          logger.warn(`Webhook ${url} a répondu ${response.status}.`);
+        }
+      } catch (error) {
+        logger.error(`Erreur lors de l'appel du webhook ${url}`, error);
+      }
+    }));
+  }
+}
@@ -0,0 +1,128 @@
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+import { DayRecord } from './planningStore';
+
+/**
+ * Inscriptions archivées d'un créneau.
+ */
+export interface ArchivedSlot {
+  /** Libellé du créneau */
+  slot: string;
+  /** Nombre de places le jour du créneau (null si illimité) */
+  capacity: number | null;
+  /** IDs Discord des membres inscrits */
+  members: string[];
+  /** IDs Discord des membres restés en liste d'attente */
+  waitlist: string[];
+}
+
+/**
+ * Journée de planning archivée.
+ */
+export interface ArchivedDay {
+  /** Label du jour (ex: "lundi 15 janvier") */
+  label: string;
+  /** Date de l'archivage (ISO 8601) */
+  archivedAt: string;
+  /** Créneaux, dans l'ordre du planning */
+  slots: ArchivedSlot[];
+}
+
+/**
+ * Données sauvegardées des archives.
+ */
+export interface ArchiveData {
+  /** Journées archivées, indexées par jour (AAAA-MM-JJ) */
+  days: Record<string, ArchivedDay>;
+}
+
+/**
+ * Archives de fréquentation du planning.
+ *
+ * Conserve les inscriptions de chaque journée passée avant que son salon
+ * et ses données de planning ne soient supprimés.
+ *
+ * @example
+ * ```typescript
+ * const archive = new AttendanceArchive(new JsonStore('data/planning-archive.json'));
+ * await archive.load();
+ * const day = archive.getDay('2025-01-15');
+ * ```
+ */
+export class AttendanceArchive {
+  /** Journées archivées */
+  private data: ArchiveData = { days: {} };
+
+  /**
+   * Crée une nouvelle instance des archives.
+   *
+   * @param {JsonStore<ArchiveData>} store - Stockage local des archives
+   */
+  constructor(private readonly store: JsonStore<ArchiveData>) {}
+
+  /**
+   * Charge les archives sauvegardées.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand les archives sont chargées
+   */
+  async load(): Promise<void> {
+    const saved = await this.store.read();
+    this.data = { days: saved?.days ?? {} };
+  }
+
+  /**
+   * Archive les inscriptions d'une journée.
+   * Une journée déjà archivée est remplacée.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {DayRecord} record - Journée du modèle de planning
+   * @param {(slot: string) => number | null} getCapacity - Capacité d'un créneau ce jour-là
+   * @returns {ArchivedDay} Journée archivée
+   */
+  archiveDay(dateKey: string, record: DayRecord, getCapacity: (slot: string) => number | null): ArchivedDay {
+    const day: ArchivedDay = {
+      label: record.label,
+      archivedAt: new Date().toISOString(),
+      slots: Object.entries(record.slots).map(([slot, slotRecord]) => ({
+        slot,
+        capacity: getCapacity(slot),
+        members: [...slotRecord.members],
+        waitlist: [...slotRecord.waitlist]
+      }))
+    };
+
+    this.data.days[dateKey] = day;
+    this.save();
+    return day;
+  }
+
+  /**
+   * Récupère une journée archivée.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {ArchivedDay | null} Journée archivée ou null si elle n'existe pas
+   */
+  getDay(dateKey: string): ArchivedDay | null {
+    return this.data.days[dateKey] ?? null;
+  }
+
+  /**
+   * Récupère les journées archivées, de la plus récente à la plus ancienne.
+   *
+   * @returns {Array<[string, ArchivedDay]>} Journées archivées, avec leur clé
+   */
+  getDays(): Array<[string, ArchivedDay]> {
+    return Object.entries(this.data.days).sort(([a], [b]) => b.localeCompare(a));
+  }
+
+  /**
+   * Sauvegarde les archives.
+   *
+   * @private
+   */
+  private save(): void {
+    this.store.write(this.data).catch(error => {
+      logger.error('Impossible de sauvegarder les archives du planning.', error);
+    });
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  Client
+} from 'discord.js';
+import cron from 'node-cron';
+
+import { config } from '../../config/env';
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+import { GymStatusManager } from '../status/gymStatusManager';
+import { getSlotBounds, getTodayKey } from './planningCalendar';
+import { buildSlotButtonId, PlanningButtonAction } from './planningManager';
+import { PlanningStore, SlotRef } from './planningStore';
+
+/**
+ * Données sauvegardées des rappels.
+ */
+export interface ReminderData {
+  /** IDs Discord des membres ayant activé les rappels */
+  optIns: string[];
+  /** Rappels déjà envoyés (clés "AAAA-MM-JJ|créneau|ID membre") */
+  sent: string[];
+}
+
+/**
+ * Service de rappels en message privé avant les créneaux réservés.
+ *
+ * Responsabilités:
+ * - Enregistrer l'activation des rappels par chaque membre
+ * - Envoyer un rappel avant chaque créneau réservé, avec le statut actuel de la salle
+ *   et un bouton "Je ne viens plus" pour se désinscrire
+ * - Ne jamais envoyer deux fois le même rappel, y compris après un redémarrage
+ *
+ * Les inscriptions sont relues à chaque vérification : un créneau annulé entre-temps
+ * ne déclenche pas de rappel.
+ *
+ * @example
+ * ```typescript
+ * const reminderService = new BookingReminderService(client, planningStore, statusManager, store, 60);
+ * await reminderService.initialize();
+ * ```
+ */
+export class BookingReminderService {
+  /** Données des rappels */
+  private data: ReminderData = { optIns: [], sent: [] };
+  /** Tâche cron de vérification des rappels */
+  private task: ReturnType<typeof cron.schedule> | null = null;
+
+  /**
+   * Crée une nouvelle instance du service de rappels.
+   *
+   * @param {Client} client - Client Discord
+   * @param {PlanningStore} planningStore - Modèle de données du planning
+   * @param {GymStatusManager} statusManager - Gestionnaire du statut de la salle
+   * @param {JsonStore<ReminderData>} store - Stockage local des rappels
+   * @param {number} leadMinutes - Nombre de minutes avant le début du créneau
+   */
+  constructor(
+    private readonly client: Client,
+    private readonly planningStore: PlanningStore,
+    private readonly statusManager: GymStatusManager,
+    private readonly store: JsonStore<ReminderData>,
+    private readonly leadMinutes: number
+  ) {}
+
+  /**
+   * Charge les rappels sauvegardés et programme la vérification chaque minute.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le service est prêt
+   */
+  async initialize(): Promise<void> {
+    const saved = await this.store.read();
+    this.data = saved ?? { optIns: [], sent: [] };
+
+    if (this.task) {
+      this.task.stop();
+    }
+
+    this.task = cron.schedule(
+      '* * * * *',
+      async () => {
+        try {
+          await this.sendDueReminders();
+        } catch (error) {
+          logger.error('Erreur lors de l\'envoi des rappels de créneaux.', error);
+        }
+      },
+      { timezone: config.timezone }
+    );
+
+    logger.info(`Rappels de créneaux programmés ${this.leadMinutes} min avant le début.`);
+  }
+
+  /**
+   * Indique si un membre a activé les rappels.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @returns {boolean} true si les rappels sont activés
+   */
+  isOptedIn(userId: string): boolean {
+    return this.data.optIns.includes(userId);
+  }
+
+  /**
+   * Active ou désactive les rappels d'un membre.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {boolean} enabled - true pour activer les rappels
+   */
+  setOptIn(userId: string, enabled: boolean): void {
+    const optIns = this.data.optIns.filter(id => id !== userId);
+    if (enabled) {
+      optIns.push(userId);
+    }
+
+    this.data.optIns = optIns;
+    this.save();
+  }
+
+  /**
+   * Envoie les rappels des créneaux qui commencent dans le délai configuré.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand les rappels sont envoyés
+   * @private
+   */
+  private async sendDueReminders(): Promise<void> {
+    const now = Date.now();
+    const today = getTodayKey(config.timezone);
+    const leadMs = this.leadMinutes * 60 * 1000;
+
+    // Les rappels des jours passés ne servent plus
+    const sent = this.data.sent.filter(key => key.split('|')[0] >= today);
+    let changed = sent.length !== this.data.sent.length;
+    this.data.sent = sent;
+
+    for (const [dateKey, day] of this.planningStore.getDays()) {
+      if (dateKey < today) {
+        continue;
+      }
+
+      for (const [slot, record] of Object.entries(day.slots)) {
+        const start = getSlotBounds(dateKey, slot, config.timezone).start.getTime();
+        if (now < start - leadMs || now >= start) {
+          continue;
+        }
+
+        for (const userId of record.members) {
+          const key = [dateKey, slot, userId].join('|');
+          if (!this.isOptedIn(userId) || this.data.sent.includes(key)) {
+            continue;
+          }
+
+          this.data.sent.push(key);
+          changed = true;
+          await this.sendReminder(userId, { dateKey, slot }, day.label, start);
+        }
+      }
+    }
+
+    if (changed) {
+      this.save();
+    }
+  }
+
+  /**
+   * Envoie le rappel d'un créneau à un membre.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {SlotRef} ref - Créneau réservé
+   * @param {string} label - Label du jour (ex: "lundi 15 janvier")
+   * @param {number} start - Début du créneau (timestamp en millisecondes)
+   * @returns {Promise<void>} Promise qui se résout quand le rappel est envoyé
+   * @private
+   */
+  private async sendReminder(userId: string, ref: SlotRef, label: string, start: number): Promise<void> {
+    const { status, details } = this.statusManager.snapshot;
+    const statusParts = [`Statut actuel de la salle : **${status}**`];
+    if (details.reason) {
+      statusParts.push(details.reason);
+    }
+    if (details.expectedEnd) {
+      statusParts.push(`fin prévue : ${details.expectedEnd}`);
+    }
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(buildSlotButtonId(PlanningButtonAction.Cancel, ref))
+        .setLabel('Je ne viens plus')
+        .setStyle(ButtonStyle.Danger)
+    );
+
+    try {
+      await this.client.users.send(userId, {
+        content: [
+          `⏰ Rappel : vous êtes inscrit sur le créneau ${ref.slot} du ${label} (<t:${Math.floor(start / 1000)}:R>).`,
+          statusParts.join(' — ')
+        ].join('\n'),
+        components: [row]
+      });
+      logger.info(`Rappel envoyé à ${userId} pour ${ref.dateKey} ${ref.slot}`);
+    } catch (error) {
+      logger.warn(`Impossible d'envoyer le rappel à ${userId}`, error);
+    }
+  }
+
+  /**
+   * Sauvegarde les données des rappels.
+   *
+   * @private
+   */
+  private save(): void {
+    this.store.write(this.data).catch(error => {
+      logger.error('Impossible de sauvegarder les rappels de créneaux.', error);
+    });
+  }
+}
@@ -0,0 +1,224 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+
+import { config } from '../../config/env';
+import { addDays } from '../../utils/calendar';
+import { buildIcsCalendar, IcsEvent } from '../../utils/icalendar';
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+import { getSlotBounds, getTodayKey } from './planningCalendar';
+import { PlanningManager } from './planningManager';
+
+/**
+ * Nombre de jours à venir dont les fermetures figurent dans le calendrier de la salle.
+ */
+const CLOSURE_HORIZON_DAYS = 90;
+
+/**
+ * Calendrier exporté : planning de la salle ou inscriptions d'un membre.
+ */
+export type CalendarFeed = 'club' | 'member';
+
+/**
+ * Données sauvegardées des liens d'abonnement.
+ */
+export interface CalendarFeedData {
+  /** Jeton du calendrier de la salle (null tant qu'il n'a pas été demandé) */
+  clubToken: string | null;
+  /** Jetons des calendriers personnels, indexés par ID Discord */
+  memberTokens: Record<string, string>;
+}
+
+/**
+ * Export iCalendar (`.ics`) du planning.
+ *
+ * Responsabilités:
+ * - Générer le calendrier de la salle : créneaux des jours du planning et jours de fermeture
+ * - Générer le calendrier personnel d'un membre : ses inscriptions à venir
+ * - Attribuer les jetons des liens d'abonnement, renouvelables pour invalider un lien partagé,
+ *   uniquement quand l'API HTTP est exposée (`API_PORT` et `API_PUBLIC_URL`)
+ *
+ * Les heures des créneaux sont calculées dans la timezone de l'application.
+ *
+ * @example
+ * ```typescript
+ * const calendarFeeds = new CalendarFeedService(planningManager, store);
+ * await calendarFeeds.load();
+ * const ics = calendarFeeds.buildMemberCalendar(user.id);
+ * const url = calendarFeeds.getFeedUrl('member', user.id);
+ * ```
+ */
+export class CalendarFeedService {
+  /** Données des liens d'abonnement */
+  private data: CalendarFeedData = { clubToken: null, memberTokens: {} };
+
+  /**
+   * Crée une nouvelle instance de l'export iCalendar.
+   *
+   * @param {PlanningManager} planningManager - Gestionnaire du planning
+   * @param {JsonStore<CalendarFeedData>} store - Stockage local des jetons
+   */
+  constructor(
+    private readonly planningManager: PlanningManager,
+    private readonly store: JsonStore<CalendarFeedData>
+  ) {}
+
+  /**
+   * Charge les jetons sauvegardés.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand les jetons sont chargés
+   */
+  async load(): Promise<void> {
+    const saved = await this.store.read();
+    this.data = { clubToken: saved?.clubToken ?? null, memberTokens: saved?.memberTokens ?? {} };
+  }
+
+  /**
+   * Génère le calendrier de la salle : créneaux des jours du planning
+   * et jours de fermeture des 90 prochains jours.
+   *
+   * @returns {string} Contenu du fichier `.ics`
+   */
+  buildClubCalendar(): string {
+    const events: IcsEvent[] = [];
+
+    for (const { dateKey } of this.planningManager.getUpcomingDays()) {
+      for (const { slot, count, capacity } of this.planningManager.getDaySlots(dateKey)) {
+        events.push({
+          uid: `${dateKey}-${slot.replace(/\D/g, '')}@weston-gym-bot`,
+          summary: `Salle de sport — ${slot}`,
+          description: capacity !== null ? `${count}/${capacity} inscrit(s)` : `${count} inscrit(s)`,
+          when: getSlotBounds(dateKey, slot, config.timezone)
+        });
+      }
+    }
+
+    const today = getTodayKey(config.timezone);
+    for (let offset = 0; offset < CLOSURE_HORIZON_DAYS; offset++) {
+      const dateKey = addDays(today, offset);
+      const closure = this.planningManager.getClosure(dateKey);
+      if (closure) {
+        events.push({
+          uid: `${dateKey}-fermeture@weston-gym-bot`,
+          summary: closure.reason ? `Salle fermée — ${closure.reason}` : 'Salle fermée',
+          when: { day: dateKey }
+        });
+      }
+    }
+
+    return buildIcsCalendar('Planning de la salle de sport', events, config.timezone);
+  }
+
+  /**
+   * Génère le calendrier personnel d'un membre : ses inscriptions à venir,
+   * places en liste d'attente comprises.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @returns {string} Contenu du fichier `.ics`
+   */
+  buildMemberCalendar(userId: string): string {
+    const events = this.planningManager.getMemberBookings(userId).map((booking): IcsEvent => ({
+      uid: `${booking.dateKey}-${booking.slot.replace(/\D/g, '')}-${userId}@weston-gym-bot`,
+      summary: booking.waitlistPosition !== null
+        ? `Salle de sport (liste d'attente, position ${booking.waitlistPosition})`
+        : 'Salle de sport',
+      description: `Créneau ${booking.slot} du ${booking.label}`,
+      url: booking.messageUrl ?? undefined,
+      when: getSlotBounds(booking.dateKey, booking.slot, config.timezone)
+    }));
+
+    return buildIcsCalendar('Mes séances à la salle de sport', events, config.timezone);
+  }
+
+  /**
+   * Construit le lien d'abonnement d'un calendrier. Le jeton du lien est créé au premier appel.
+   *
+   * @param {CalendarFeed} feed - Calendrier concerné
+   * @param {string} userId - ID Discord du membre (calendrier personnel)
+   * @param {boolean} renew - Remplacer le jeton existant (l'ancien lien ne fonctionne plus)
+   * @returns {string | null} Lien d'abonnement, ou null si l'API HTTP ou son URL publique ne sont pas configurées
+   */
+  getFeedUrl(feed: CalendarFeed, userId: string, renew = false): string | null {
+    if (config.api.port === null || !config.api.publicUrl) {
+      return null;
+    }
+
+    const token = this.getToken(feed, userId, renew);
+    return `${config.api.publicUrl.replace(/\/+$/, '')}/calendar/${feed}.ics?token=${token}`;
+  }
+
+  /**
+   * Génère le calendrier correspondant à un jeton d'abonnement.
+   * Les jetons sont comparés en temps constant.
+   *
+   * @param {CalendarFeed} feed - Calendrier demandé
+   * @param {string} token - Jeton du lien d'abonnement
+   * @returns {string | null} Contenu du fichier `.ics`, ou null si le jeton est inconnu
+   */
+  buildCalendarForToken(feed: CalendarFeed, token: string): string | null {
+    if (!token) {
+      return null;
+    }
+
+    if (feed === 'club') {
+      return this.data.clubToken && tokensMatch(token, this.data.clubToken) ? this.buildClubCalendar() : null;
+    }
+
+    // Toutes les entrées sont comparées, sans s'arrêter à la première correspondance
+    let userId: string | null = null;
+    for (const [id, memberToken] of Object.entries(this.data.memberTokens)) {
+      if (tokensMatch(token, memberToken)) {
+        userId = id;
+      }
+    }
+    return userId ? this.buildMemberCalendar(userId) : null;
+  }
+
+  /**
+   * Récupère le jeton d'un calendrier, créé au premier appel.
+   *
+   * @param {CalendarFeed} feed - Calendrier concerné
+   * @param {string} userId - ID Discord du membre (calendrier personnel)
+   * @param {boolean} renew - Remplacer le jeton existant (l'ancien lien ne fonctionne plus)
+   * @returns {string} Jeton du calendrier
+   * @private
+   */
+  private getToken(feed: CalendarFeed, userId: string, renew: boolean): string {
+    const current = feed === 'club' ? this.data.clubToken : this.data.memberTokens[userId];
+    if (current && !renew) {
+      return current;
+    }
+
+    const token = randomBytes(24).toString('hex');
+    if (feed === 'club') {
+      this.data.clubToken = token;
+    } else {
+      this.data.memberTokens[userId] = token;
+    }
+    this.save();
+    return token;
+  }
+
+  /**
+   * Sauvegarde les jetons.
+   *
+   * @private
+   */
+  private save(): void {
+    this.store.write(this.data).catch(error => {
+      logger.error('Impossible de sauvegarder les jetons des calendriers.', error);
+    });
+  }
+}
+
+/**
+ * Compare deux jetons en temps constant.
+ *
+ * @param {string} candidate - Jeton reçu
+ * @param {string} expected - Jeton attendu
+ * @returns {boolean} true si les jetons sont identiques
+ */
+function tokensMatch(candidate: string, expected: string): boolean {
+  const candidateBuffer = Buffer.from(candidate, 'utf8');
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  return candidateBuffer.length === expectedBuffer.length && timingSafeEqual(candidateBuffer, expectedBuffer);
+}
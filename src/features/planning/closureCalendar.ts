@@ -0,0 +1,376 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { addDays, formatDayKey, isDayKey, zonedTime } from '../../utils/calendar';
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+
+/**
+ * Origine d'une fermeture.
+ * - `manual`: fermeture décidée avec `/planning close`
+ * - `holiday`: jour férié ou période de fermeture du fichier de fermetures
+ */
+export type ClosureSource = 'manual' | 'holiday';
+
+/**
+ * Fermeture de la salle pour un jour.
+ */
+export interface Closure {
+  /** Raison de la fermeture (null si non précisée) */
+  reason: string | null;
+  /** Origine de la fermeture */
+  source: ClosureSource;
+}
+
+/**
+ * Période de fermeture du fichier de fermetures.
+ */
+export interface HolidayPeriod {
+  /** Premier jour fermé (AAAA-MM-JJ, inclus) */
+  from: string;
+  /** Dernier jour fermé (AAAA-MM-JJ, inclus) */
+  to: string;
+  /** Raison de la fermeture (ex: "Noël") */
+  reason: string | null;
+}
+
+/**
+ * Fermeture décidée manuellement.
+ */
+export interface ManualClosure {
+  /** Raison de la fermeture (null si non précisée) */
+  reason: string | null;
+  /** ID Discord du membre ayant fermé la journée */
+  closedBy: string;
+  /** Date de la fermeture (ISO 8601) */
+  closedAt: string;
+}
+
+/**
+ * Données sauvegardées des fermetures manuelles.
+ */
+export interface ClosureData {
+  /** Fermetures manuelles, indexées par jour (AAAA-MM-JJ) */
+  closed: Record<string, ManualClosure>;
+  /** Jours du fichier de fermetures rouverts avec `/planning reopen` */
+  reopened: string[];
+}
+
+/**
+ * Calendrier des fermetures de la salle.
+ *
+ * Combine les fermetures manuelles (`/planning close`, sauvegardées) et les périodes
+ * du fichier de fermetures (JSON ou iCal, relu au démarrage). Une fermeture manuelle
+ * l'emporte sur le fichier ; `/planning reopen` sur un jour du fichier le rouvre
+ * sans modifier le fichier.
+ *
+ * @example
+ * ```typescript
+ * const holidays = await loadHolidayFile('fermetures.ics');
+ * const closures = new ClosureCalendar(new JsonStore('data/planning-closures.json'), holidays);
+ * await closures.load();
+ * const closure = closures.getClosure('2025-12-25');
+ * ```
+ */
+export class ClosureCalendar {
+  /** Fermetures manuelles */
+  private data: ClosureData = { closed: {}, reopened: [] };
+
+  /**
+   * Crée une nouvelle instance du calendrier des fermetures.
+   *
+   * @param {JsonStore<ClosureData>} store - Stockage local des fermetures manuelles
+   * @param {HolidayPeriod[]} holidays - Périodes du fichier de fermetures
+   */
+  constructor(
+    private readonly store: JsonStore<ClosureData>,
+    private readonly holidays: HolidayPeriod[] = []
+  ) {}
+
+  /**
+   * Charge les fermetures manuelles sauvegardées.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand les fermetures sont chargées
+   */
+  async load(): Promise<void> {
+    const saved = await this.store.read();
+    this.data = {
+      closed: saved?.closed ?? {},
+      reopened: saved?.reopened ?? []
+    };
+  }
+
+  /**
+   * Récupère la fermeture d'un jour.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {Closure | null} Fermeture du jour ou null si la salle est ouverte
+   */
+  getClosure(dateKey: string): Closure | null {
+    const manual = this.data.closed[dateKey];
+    if (manual) {
+      return { reason: manual.reason, source: 'manual' };
+    }
+
+    if (this.data.reopened.includes(dateKey)) {
+      return null;
+    }
+
+    // La dernière période correspondante du fichier l'emporte, comme pour les horaires
+    const holiday = [...this.holidays].reverse().find(period => dateKey >= period.from && dateKey <= period.to);
+    return holiday ? { reason: holiday.reason, source: 'holiday' } : null;
+  }
+
+  /**
+   * Ferme la salle pour un jour.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {string | null} reason - Raison de la fermeture
+   * @param {string} closedBy - ID Discord du membre ayant fermé la journée
+   */
+  close(dateKey: string, reason: string | null, closedBy: string): void {
+    this.data.closed[dateKey] = { reason, closedBy, closedAt: new Date().toISOString() };
+    this.data.reopened = this.data.reopened.filter(key => key !== dateKey);
+    this.save();
+  }
+
+  /**
+   * Rouvre la salle pour un jour fermé manuellement ou par le fichier de fermetures.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {boolean} false si le jour n'était pas fermé
+   */
+  reopen(dateKey: string): boolean {
+    const closure = this.getClosure(dateKey);
+    if (!closure) {
+      return false;
+    }
+
+    delete this.data.closed[dateKey];
+    // Le jour reste fermé par le fichier sans exception explicite
+    if (this.getClosure(dateKey)) {
+      this.data.reopened.push(dateKey);
+    }
+
+    this.save();
+    return true;
+  }
+
+  /**
+   * Sauvegarde les fermetures manuelles.
+   *
+   * @private
+   */
+  private save(): void {
+    this.store.write(this.data).catch(error => {
+      logger.error('Impossible de sauvegarder les fermetures du planning.', error);
+    });
+  }
+}
+
+/**
+ * Charge le fichier de fermetures (jours fériés, congés annuels, travaux...).
+ *
+ * Formats acceptés, selon l'extension:
+ * - `.ics`: calendrier iCal, chaque événement ferme les jours qu'il couvre (SUMMARY comme raison) ;
+ *   les événements récurrents (RRULE) ne sont pas pris en charge et sont ignorés avec un avertissement
+ * - autre: liste JSON de `{ "date": "2025-12-25", "reason": "Noël" }`
+ *   ou `{ "from": "2025-08-01", "to": "2025-08-15", "reason": "Congés" }`
+ *
+ * @param {string | null} filePath - Chemin du fichier de fermetures
+ * @param {string} timeZone - Timezone du planning (format IANA), pour les heures des événements iCal
+ * @returns {Promise<HolidayPeriod[]>} Périodes de fermeture (liste vide sans fichier)
+ * @throws {Error} Si le fichier est illisible ou invalide
+ */
+export async function loadHolidayFile(filePath: string | null, timeZone: string): Promise<HolidayPeriod[]> {
+  if (!filePath) {
+    return [];
+  }
+
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Impossible de lire le fichier de fermetures ${filePath}: ${(error as Error).message}`);
+  }
+
+  const fail = (message: string): never => {
+    throw new Error(`Fichier de fermetures ${filePath} invalide: ${message}`);
+  };
+
+  const periods = path.extname(filePath).toLowerCase() === '.ics'
+    ? parseIcs(content, timeZone, fail)
+    : parseHolidayJson(content, fail);
+
+  logger.info(`${periods.length} période(s) de fermeture chargée(s) depuis ${filePath}.`);
+  return periods;
+}
+
+/**
+ * Lit une liste JSON de fermetures.
+ *
+ * @param {string} content - Contenu du fichier
+ * @param {(message: string) => never} fail - Fonction levant l'erreur de validation
+ * @returns {HolidayPeriod[]} Périodes validées
+ */
+function parseHolidayJson(content: string, fail: (message: string) => never): HolidayPeriod[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+
+  if (!Array.isArray(raw)) {
+    return fail('une liste JSON est attendue.');
+  }
+
+  return raw.map((entry: unknown, index): HolidayPeriod => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return fail(`la fermeture n°${index + 1} doit être un objet.`);
+    }
+
+    const { date, from = date, to = date, reason } = entry as Record<string, unknown>;
+    if (typeof from !== 'string' || !isDayKey(from) || typeof to !== 'string' || !isDayKey(to)) {
+      return fail(`la fermeture n°${index + 1} doit avoir une "date" ou des dates "from" et "to" AAAA-MM-JJ.`);
+    }
+    if (from > to) {
+      return fail(`la fermeture n°${index + 1}: "from" doit précéder "to".`);
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      return fail(`la fermeture n°${index + 1}: "reason" doit être un texte.`);
+    }
+
+    return { from, to, reason: reason || null };
+  });
+}
+
+/**
+ * Propriété d'un événement iCal.
+ */
+interface IcsProperty {
+  /** Valeur brute */
+  value: string;
+  /** Paramètres (ex: `{ TZID: 'Europe/Paris', VALUE: 'DATE' }`), noms en majuscules */
+  params: Record<string, string>;
+}
+
+/**
+ * Lit les événements d'un calendrier iCal.
+ * Seuls DTSTART, DTEND et SUMMARY sont utilisés ; un événement sur une journée entière
+ * se termine la veille de son DTEND (exclusif), un événement horaire couvre les jours,
+ * dans la timezone du planning, entre son début et sa fin (une fin à minuit exclut ce jour).
+ * Les heures UTC (`Z`) et avec TZID sont converties dans la timezone du planning ; les heures
+ * sans timezone sont considérées comme locales. Les événements récurrents (RRULE) ou dont
+ * la timezone est inconnue sont ignorés avec un avertissement.
+ *
+ * @param {string} content - Contenu du fichier
+ * @param {string} timeZone - Timezone du planning (format IANA)
+ * @param {(message: string) => never} fail - Fonction levant l'erreur de validation
+ * @returns {HolidayPeriod[]} Périodes des événements
+ */
+function parseIcs(content: string, timeZone: string, fail: (message: string) => never): HolidayPeriod[] {
+  // Les lignes longues sont repliées sur plusieurs lignes commençant par un espace
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const periods: HolidayPeriod[] = [];
+  let event: Record<string, IcsProperty> | null = null;
+  let eventCount = 0;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      eventCount++;
+      continue;
+    }
+
+    if (line === 'END:VEVENT' && event) {
+      const start = event.DTSTART;
+      if (!start) {
+        return fail(`événement n°${eventCount} sans DTSTART.`);
+      }
+
+      const summary = event.SUMMARY?.value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ').trim();
+      if (event.RRULE) {
+        logger.warn(
+          `Fermeture iCal "${summary || `événement n°${eventCount}`}" ignorée : ` +
+          'les événements récurrents (RRULE) ne sont pas pris en charge.'
+        );
+        event = null;
+        continue;
+      }
+
+      const from = parseIcsDay(start, timeZone, false, fail);
+      const to = event.DTEND ? parseIcsDay(event.DTEND, timeZone, true, fail) : from;
+      if (from === null || to === null) {
+        logger.warn(
+          `Fermeture iCal "${summary || `événement n°${eventCount}`}" ignorée : ` +
+          `timezone "${from === null ? start.params.TZID : event.DTEND?.params.TZID}" inconnue.`
+        );
+        event = null;
+        continue;
+      }
+
+      periods.push({ from, to: to < from ? from : to, reason: summary || null });
+      event = null;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (!event || separator === -1) {
+      continue;
+    }
+
+    const [name, ...rawParams] = line.slice(0, separator).split(';');
+    const property = name.toUpperCase();
+    if (property === 'DTSTART' || property === 'DTEND' || property === 'SUMMARY' || property === 'RRULE') {
+      const params: Record<string, string> = {};
+      for (const param of rawParams) {
+        const [key, value = ''] = param.split('=');
+        params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+      }
+      event[property] = { value: line.slice(separator + 1), params };
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Convertit une date iCal (AAAAMMJJ, AAAAMMJJTHHMMSS, AAAAMMJJTHHMMSSZ) en clé de jour
+ * dans la timezone du planning.
+ *
+ * @param {IcsProperty} property - Propriété DTSTART ou DTEND
+ * @param {string} timeZone - Timezone du planning (format IANA)
+ * @param {boolean} isEnd - Fin d'événement (exclusive) : une journée entière ou minuit désigne le jour précédent
+ * @param {(message: string) => never} fail - Fonction levant l'erreur de validation
+ * @returns {string | null} Clé du jour (AAAA-MM-JJ), ou null si la timezone TZID est inconnue
+ */
+function parseIcsDay(
+  property: IcsProperty,
+  timeZone: string,
+  isEnd: boolean,
+  fail: (message: string) => never
+): string | null {
+  const { value, params } = property;
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  const dateKey = match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+  if (!match || !isDayKey(dateKey)) {
+    return fail(`date "${value}" invalide.`);
+  }
+
+  if (match[4] === undefined || params.VALUE === 'DATE') {
+    return isEnd ? addDays(dateKey, -1) : dateKey;
+  }
+
+  const minutes = Number(match[4]) * 60 + Number(match[5]);
+  const sourceZone = match[7] === 'Z' ? 'UTC' : params.TZID ?? timeZone;
+  let instant: Date;
+  try {
+    instant = zonedTime(dateKey, minutes, sourceZone);
+  } catch {
+    return null;
+  }
+
+  // La fin est exclusive : un événement se terminant à minuit ne couvre pas le jour suivant
+  return formatDayKey(new Date(instant.getTime() - (isEnd ? 1 : 0)), timeZone);
+}
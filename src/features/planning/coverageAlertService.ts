@@ -0,0 +1,323 @@
+import { ChannelType, Client, EmbedBuilder, Guild, TextChannel } from 'discord.js';
+import cron from 'node-cron';
+
+import { config } from '../../config/env';
+import { addDays } from '../../utils/calendar';
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+import { ClosureCalendar } from './closureCalendar';
+import { getSlotBounds, getTodayKey } from './planningCalendar';
+import { PlanningStore } from './planningStore';
+
+/**
+ * Délai avant le début d'un créneau sans responsable à partir duquel les responsables sont mentionnés.
+ */
+const URGENT_GAP_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Données sauvegardées des alertes.
+ */
+export interface CoverageData {
+  /** Créneaux pour lesquels les responsables ont déjà été mentionnés (clés "AAAA-MM-JJ|créneau") */
+  alerted: string[];
+}
+
+/**
+ * Créneau à venir sans responsable inscrit.
+ */
+export interface CoverageGap {
+  /** Clé du jour (AAAA-MM-JJ) */
+  dateKey: string;
+  /** Label du jour (ex: "lundi 15 janvier") */
+  label: string;
+  /** Libellé du créneau */
+  slot: string;
+  /** Début du créneau */
+  start: Date;
+  /** Nombre de membres inscrits */
+  members: number;
+}
+
+/**
+ * Service d'alertes des créneaux sans responsable.
+ *
+ * La salle ne peut ouvrir que si un membre ayant les clés (rôle de responsable) est inscrit.
+ *
+ * Responsabilités:
+ * - Publier chaque jour dans le salon du staff le rapport des créneaux sans responsable
+ *   des prochains jours
+ * - Mentionner les responsables quand un créneau sans responsable commence dans moins de 24h,
+ *   une seule fois par créneau, y compris après un redémarrage
+ * - Ignorer les jours de fermeture et les créneaux déjà commencés
+ *
+ * @example
+ * ```typescript
+ * const coverageAlertService = new CoverageAlertService(client, guildId, planningStore, closures, store);
+ * await coverageAlertService.initialize();
+ * ```
+ */
+export class CoverageAlertService {
+  /** Données des alertes */
+  private data: CoverageData = { alerted: [] };
+  /** Tâches cron du rapport quotidien et de la vérification des créneaux proches */
+  private tasks: Array<ReturnType<typeof cron.schedule>> = [];
+
+  /**
+   * Crée une nouvelle instance du service d'alertes.
+   *
+   * @param {Client} client - Client Discord
+   * @param {string} guildId - ID de la guilde Discord
+   * @param {PlanningStore} planningStore - Modèle de données du planning
+   * @param {ClosureCalendar} closures - Calendrier des fermetures de la salle
+   * @param {JsonStore<CoverageData>} store - Stockage local des alertes envoyées
+   */
+  constructor(
+    private readonly client: Client,
+    private readonly guildId: string,
+    private readonly planningStore: PlanningStore,
+    private readonly closures: ClosureCalendar,
+    private readonly store: JsonStore<CoverageData>
+  ) {}
+
+  /**
+   * Charge les alertes sauvegardées et programme le rapport quotidien
+   * et la vérification des créneaux proches (toutes les 15 minutes).
+   * Ne fait rien si le salon du staff ou les rôles des responsables ne sont pas configurés.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le service est prêt
+   */
+  async initialize(): Promise<void> {
+    const { channelId, keyholderRoles, reportCron } = config.planning.coverage;
+    if (!channelId || keyholderRoles.length === 0) {
+      logger.info('Alertes de créneaux sans responsable désactivées.');
+      return;
+    }
+
+    const saved = await this.store.read();
+    this.data = saved ?? { alerted: [] };
+
+    for (const task of this.tasks) {
+      task.stop();
+    }
+
+    this.tasks = [
+      cron.schedule(
+        reportCron,
+        async () => {
+          try {
+            await this.sendReport();
+          } catch (error) {
+            logger.error('Erreur lors de l\'envoi du rapport des créneaux sans responsable.', error);
+          }
+        },
+        { timezone: config.timezone }
+      ),
+      cron.schedule(
+        '*/15 * * * *',
+        async () => {
+          try {
+            await this.alertUrgentGaps();
+          } catch (error) {
+            logger.error('Erreur lors de l\'alerte des créneaux sans responsable.', error);
+          }
+        },
+        { timezone: config.timezone }
+      )
+    ];
+
+    logger.info(`Rapport des créneaux sans responsable programmé: ${reportCron}`);
+  }
+
+  /**
+   * Recherche les créneaux à venir sans responsable inscrit.
+   *
+   * @param {Date} now - Instant de référence (défaut: maintenant)
+   * @returns {Promise<CoverageGap[]>} Créneaux sans responsable, dans l'ordre chronologique
+   */
+  async findGaps(now: Date = new Date()): Promise<CoverageGap[]> {
+    const today = getTodayKey(config.timezone, now);
+    const lastDay = addDays(today, config.planning.coverage.daysAhead - 1);
+    const guild = await this.client.guilds.fetch(this.guildId);
+    const keyholders = new Map<string, boolean>();
+    const gaps: CoverageGap[] = [];
+
+    for (const [dateKey, day] of this.planningStore.getDays()) {
+      if (dateKey < today || dateKey > lastDay || this.closures.getClosure(dateKey)) {
+        continue;
+      }
+
+      for (const [slot, record] of Object.entries(day.slots)) {
+        const { start } = getSlotBounds(dateKey, slot, config.timezone);
+        if (start <= now) {
+          continue;
+        }
+
+        let covered = false;
+        for (const userId of record.members) {
+          if (!keyholders.has(userId)) {
+            keyholders.set(userId, await this.isKeyholder(guild, userId));
+          }
+          if (keyholders.get(userId)) {
+            covered = true;
+            break;
+          }
+        }
+
+        if (!covered) {
+          gaps.push({ dateKey, label: day.label, slot, start, members: record.members.length });
+        }
+      }
+    }
+
+    return gaps.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Publie le rapport des créneaux sans responsable dans le salon du staff.
+   * Les responsables sont mentionnés si un créneau sans responsable commence dans moins de 24h.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le rapport est publié
+   * @private
+   */
+  private async sendReport(): Promise<void> {
+    const now = new Date();
+    const gaps = await this.findGaps(now);
+    const channel = await this.fetchChannel();
+    if (!channel) {
+      return;
+    }
+
+    const { daysAhead } = config.planning.coverage;
+    const byDay = new Map<string, CoverageGap[]>();
+    for (const gap of gaps) {
+      byDay.set(gap.label, [...(byDay.get(gap.label) ?? []), gap]);
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle('Créneaux sans responsable')
+      .setColor(gaps.length > 0 ? 0xd80c44 : 0x2ecc71)
+      .setDescription(
+        gaps.length > 0
+          ? `${gaps.length} créneau(x) sans responsable inscrit sur les ${daysAhead} prochains jours.`
+          : `Tous les créneaux des ${daysAhead} prochains jours ont un responsable inscrit.`
+      )
+      .addFields(
+        [...byDay.entries()].slice(0, 25).map(([label, dayGaps]) => ({
+          name: label,
+          value: dayGaps.map(gap => `• ${gap.slot} — ${gap.members} inscrit(s)`).join('\n')
+        }))
+      );
+
+    const urgent = this.takeUnalerted(gaps.filter(gap => gap.start.getTime() - now.getTime() < URGENT_GAP_MS));
+    await channel.send({
+      content: urgent.length > 0 ? this.getKeyholderMentions(channel.guild) : undefined,
+      embeds: [embed],
+      allowedMentions: { parse: ['roles'] }
+    });
+    logger.info(`Rapport des créneaux sans responsable envoyé (${gaps.length} créneau(x)).`);
+  }
+
+  /**
+   * Mentionne les responsables pour les créneaux sans responsable qui commencent
+   * dans moins de 24h et n'ont pas encore fait l'objet d'une alerte.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand l'alerte est envoyée
+   * @private
+   */
+  private async alertUrgentGaps(): Promise<void> {
+    const now = new Date();
+    const gaps = (await this.findGaps(now)).filter(gap => gap.start.getTime() - now.getTime() < URGENT_GAP_MS);
+    const urgent = this.takeUnalerted(gaps);
+    if (urgent.length === 0) {
+      return;
+    }
+
+    const channel = await this.fetchChannel();
+    if (!channel) {
+      return;
+    }
+
+    const lines = urgent.map(gap =>
+      `• ${gap.label} — ${gap.slot} (<t:${Math.floor(gap.start.getTime() / 1000)}:R>, ${gap.members} inscrit(s))`
+    );
+    await channel.send({
+      content: [
+        `🔑 ${this.getKeyholderMentions(channel.guild)} Aucun responsable n'est inscrit sur ces créneaux :`,
+        ...lines
+      ].join('\n'),
+      allowedMentions: { parse: ['roles'] }
+    });
+    logger.info(`Alerte envoyée pour ${urgent.length} créneau(x) sans responsable.`);
+  }
+
+  /**
+   * Retient les créneaux qui n'ont pas encore fait l'objet d'une alerte et les marque comme alertés.
+   * Les alertes des jours passés sont oubliées.
+   *
+   * @param {CoverageGap[]} gaps - Créneaux sans responsable proches
+   * @returns {CoverageGap[]} Créneaux pas encore alertés
+   * @private
+   */
+  private takeUnalerted(gaps: CoverageGap[]): CoverageGap[] {
+    const today = getTodayKey(config.timezone);
+    const alerted = this.data.alerted.filter(key => key.split('|')[0] >= today);
+    const fresh = gaps.filter(gap => !alerted.includes(`${gap.dateKey}|${gap.slot}`));
+
+    if (fresh.length > 0 || alerted.length !== this.data.alerted.length) {
+      this.data.alerted = [...alerted, ...fresh.map(gap => `${gap.dateKey}|${gap.slot}`)];
+      this.store.write(this.data).catch(error => {
+        logger.error('Impossible de sauvegarder les alertes de créneaux sans responsable.', error);
+      });
+    }
+
+    return fresh;
+  }
+
+  /**
+   * Indique si un membre a l'un des rôles de responsable.
+   *
+   * @param {Guild} guild - Guilde Discord
+   * @param {string} userId - ID Discord du membre
+   * @returns {Promise<boolean>} true si le membre est responsable
+   * @private
+   */
+  private async isKeyholder(guild: Guild, userId: string): Promise<boolean> {
+    try {
+      const member = await guild.members.fetch(userId);
+      return member.roles.cache.some(role => config.planning.coverage.keyholderRoles.includes(role.name));
+    } catch (error) {
+      logger.warn(`Impossible de récupérer le membre ${userId}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Construit les mentions des rôles de responsable.
+   *
+   * @param {Guild} guild - Guilde Discord
+   * @returns {string} Mentions des rôles trouvés dans la guilde
+   * @private
+   */
+  private getKeyholderMentions(guild: Guild): string {
+    return guild.roles.cache
+      .filter(role => config.planning.coverage.keyholderRoles.includes(role.name))
+      .map(role => `<@&${role.id}>`)
+      .join(' ');
+  }
+
+  /**
+   * Récupère le salon du staff.
+   *
+   * @returns {Promise<TextChannel | null>} Salon du staff ou null s'il est introuvable
+   * @private
+   */
+  private async fetchChannel(): Promise<TextChannel | null> {
+    const channelId = config.planning.coverage.channelId;
+    const channel = channelId ? await this.client.channels.fetch(channelId) : null;
+    if (channel?.type !== ChannelType.GuildText) {
+      logger.warn(`Salon du staff ${channelId} introuvable ou non textuel.`);
+      return null;
+    }
+    return channel;
+  }
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { getSlotBounds, getTodayKey } from './planningCalendar';
+
+const PARIS = 'Europe/Paris';
+
+/**
+ * Formate les bornes d'un créneau pour les comparaisons.
+ *
+ * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+ * @param {string} slot - Libellé du créneau
+ * @returns {[string, string]} Début et fin au format ISO
+ */
+function bounds(dateKey: string, slot: string): [string, string] {
+  const { start, end } = getSlotBounds(dateKey, slot, PARIS);
+  return [start.toISOString(), end.toISOString()];
+}
+
+describe('getSlotBounds', () => {
+  it('calcule un créneau le jour du passage à l\'heure d\'été (2026-03-29)', () => {
+    assert.deepEqual(bounds('2026-03-29', '08:00 - 10:00'), ['2026-03-29T06:00:00.000Z', '2026-03-29T08:00:00.000Z']);
+    // 00:00 - 04:00 ne dure que 3 heures
+    assert.deepEqual(bounds('2026-03-29', '00:00 - 04:00'), ['2026-03-28T23:00:00.000Z', '2026-03-29T02:00:00.000Z']);
+  });
+
+  it('calcule un créneau le jour du passage à l\'heure d\'hiver (2026-10-25)', () => {
+    assert.deepEqual(bounds('2026-10-25', '08:00 - 10:00'), ['2026-10-25T07:00:00.000Z', '2026-10-25T09:00:00.000Z']);
+    // 00:00 - 04:00 dure 5 heures ; 02:00 est la première occurrence
+    assert.deepEqual(bounds('2026-10-25', '00:00 - 04:00'), ['2026-10-24T22:00:00.000Z', '2026-10-25T03:00:00.000Z']);
+    assert.deepEqual(bounds('2026-10-25', '02:00 - 04:00'), ['2026-10-25T00:00:00.000Z', '2026-10-25T03:00:00.000Z']);
+  });
+
+  it('termine un créneau "23:00 - 00:00" à minuit à la fin du jour', () => {
+    assert.deepEqual(bounds('2026-10-19', '23:00 - 00:00'), ['2026-10-19T21:00:00.000Z', '2026-10-19T22:00:00.000Z']);
+    assert.deepEqual(bounds('2026-03-28', '23:00 - 00:00'), ['2026-03-28T22:00:00.000Z', '2026-03-28T23:00:00.000Z']);
+    assert.deepEqual(bounds('2026-10-25', '23:00 - 00:00'), ['2026-10-25T22:00:00.000Z', '2026-10-25T23:00:00.000Z']);
+  });
+
+  it('termine un créneau qui passe minuit le jour suivant', () => {
+    assert.deepEqual(bounds('2026-10-24', '22:00 - 02:00'), ['2026-10-24T20:00:00.000Z', '2026-10-25T00:00:00.000Z']);
+  });
+});
+
+describe('getTodayKey', () => {
+  it('dépend de la timezone du planning et non de celle de la machine', () => {
+    const now = new Date('2026-10-19T11:00:00Z');
+    assert.equal(getTodayKey('Pacific/Kiritimati', now), '2026-10-20');
+    assert.equal(getTodayKey('Pacific/Pago_Pago', now), '2026-10-19');
+    assert.equal(
+      getSlotBounds('2026-10-19', '18:00 - 20:00', 'America/New_York').start.toISOString(),
+      '2026-10-19T22:00:00.000Z'
+    );
+  });
+
+  it('change de jour à minuit heure de Paris en été', () => {
+    assert.equal(getTodayKey(PARIS, new Date('2026-10-19T21:59:59Z')), '2026-10-19');
+    assert.equal(getTodayKey(PARIS, new Date('2026-10-19T22:00:00Z')), '2026-10-20');
+  });
+
+  it('change de jour à minuit heure de Paris en hiver', () => {
+    assert.equal(getTodayKey(PARIS, new Date('2026-01-15T22:59:59Z')), '2026-01-15');
+    assert.equal(getTodayKey(PARIS, new Date('2026-01-15T23:00:00Z')), '2026-01-16');
+  });
+
+  it('change de jour à minuit heure de Paris la nuit du passage à l\'heure d\'hiver', () => {
+    assert.equal(getTodayKey(PARIS, new Date('2026-10-25T22:59:59Z')), '2026-10-25');
+    assert.equal(getTodayKey(PARIS, new Date('2026-10-25T23:00:00Z')), '2026-10-26');
+  });
+});
@@ -0,0 +1,79 @@
+import { addDays, formatDayKey, formatDayLabel, zonedTime } from '../../utils/calendar';
+
+/**
+ * Jour de la fenêtre de planning.
+ */
+export interface PlanningDay {
+  /** Clé du jour (AAAA-MM-JJ) */
+  dateKey: string;
+  /** Label du jour (ex: "lundi 15 janvier") */
+  label: string;
+  /** Nom du salon de planning (ex: "lundi-15-janvier") */
+  channelName: string;
+}
+
+/**
+ * Début et fin d'un créneau.
+ */
+export interface SlotBounds {
+  /** Début du créneau */
+  start: Date;
+  /** Fin du créneau */
+  end: Date;
+}
+
+/**
+ * Calcule la clé du jour courant dans la timezone du planning.
+ *
+ * @param {string} timeZone - Timezone du planning (format IANA)
+ * @param {Date} now - Instant de référence (défaut: maintenant)
+ * @returns {string} Clé du jour (AAAA-MM-JJ)
+ */
+export function getTodayKey(timeZone: string, now: Date = new Date()): string {
+  return formatDayKey(now, timeZone);
+}
+
+/**
+ * Décrit un jour de planning : clé, label et nom du salon.
+ *
+ * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+ * @returns {PlanningDay} Description du jour
+ */
+export function describeDay(dateKey: string): PlanningDay {
+  const label = formatDayLabel(dateKey);
+  return { dateKey, label, channelName: label.replace(/\s+/g, '-') };
+}
+
+/**
+ * Calcule les jours de la fenêtre de planning, à partir d'aujourd'hui dans la timezone du planning.
+ *
+ * @param {number} count - Nombre de jours
+ * @param {string} timeZone - Timezone du planning (format IANA)
+ * @param {Date} now - Instant de référence (défaut: maintenant)
+ * @returns {PlanningDay[]} Jours de la fenêtre, dans l'ordre chronologique
+ */
+export function getPlanningDays(count: number, timeZone: string, now: Date = new Date()): PlanningDay[] {
+  const today = getTodayKey(timeZone, now);
+  return Array.from({ length: count }, (_, index) => describeDay(addDays(today, index)));
+}
+
+/**
+ * Calcule les instants de début et de fin d'un créneau.
+ * Une fin à "00:00" désigne minuit à la fin du jour.
+ *
+ * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+ * @param {string} slot - Libellé du créneau (ex: "18:00 - 20:00")
+ * @param {string} timeZone - Timezone du planning (format IANA)
+ * @returns {SlotBounds} Début et fin du créneau
+ */
+export function getSlotBounds(dateKey: string, slot: string, timeZone: string): SlotBounds {
+  const [startMinutes, endMinutes] = slot.split(' - ').map(time => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  });
+
+  return {
+    start: zonedTime(dateKey, startMinutes, timeZone),
+    end: zonedTime(dateKey, endMinutes > startMinutes ? endMinutes : endMinutes + 24 * 60, timeZone)
+  };
+}
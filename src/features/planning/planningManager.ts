@@ -1,25 +1,172 @@
 import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
   CategoryChannel,
   ChannelType,
   Client,
+  DiscordAPIError,
+  EmbedBuilder,
   Guild,
+  Message,
+  MessageCreateOptions,
+  PartialMessage,
+  RESTJSONErrorCodes,
   TextChannel
 } from 'discord.js';
 import cron from 'node-cron';
 
 import { config } from '../../config/env';
+import { addDays, getWeekday } from '../../utils/calendar';
 import { logger } from '../../utils/logger';
+import { ThrottledQueue } from '../../utils/throttledQueue';
+import { ArchivedDay, AttendanceArchive } from './attendanceArchive';
+import { Closure, ClosureCalendar } from './closureCalendar';
+import { describeDay, getPlanningDays, getSlotBounds, getTodayKey, PlanningDay } from './planningCalendar';
+import {
+  ChannelSnapshot,
+  describeReconcileAction,
+  planReconciliation,
+  ReconcileAction,
+  ReconcileReport
+} from './planningReconciler';
+import { PlanningSchedule, Weekday, WEEKDAYS } from './planningSchedule';
+import { DayRecord, PlanningStore, SlotRef } from './planningStore';
+import { RecurringBookingService } from './recurringBookingService';
+
+/**
+ * Emoji utilisé pour s'inscrire sur les anciens messages de créneaux (avant les boutons).
+ */
+const LEGACY_SIGNUP_EMOJI = '✅';
+
+/**
+ * Couleur des embeds du planning.
+ */
+const PLANNING_COLOR = 0xd80c44;
+
+/**
+ * Longueur maximale de la valeur d'un champ d'embed Discord.
+ */
+const MAX_FIELD_LENGTH = 1024;
+
+/**
+ * Longueur totale maximale d'un embed Discord (titre, description, champs et pied de page).
+ */
+const MAX_EMBED_LENGTH = 6000;
+
+/**
+ * Préfixe des identifiants des boutons du planning.
+ */
+export const PLANNING_BUTTON_PREFIX = 'planning';
+
+/**
+ * Actions des boutons de créneau.
+ * L'identifiant complet d'un bouton est `planning:<action>:<AAAA-MM-JJ>:<HHMM-HHMM>`.
+ */
+export const enum PlanningButtonAction {
+  /** Bouton "S'inscrire" */
+  Book = 'book',
+  /** Bouton "Se désinscrire" */
+  Cancel = 'cancel'
+}
+
+/**
+ * Contenu d'un message de créneau, utilisable à l'envoi comme à la modification.
+ */
+type SlotMessage = Pick<MessageCreateOptions, 'embeds' | 'components'>;
+
+/**
+ * Résultat d'une demande d'inscription sur un créneau.
+ */
+export type SignupResult =
+  | 'booked'
+  | 'waitlisted'
+  | 'already-booked'
+  | 'already-waitlisted'
+  | 'unknown-slot'
+  | 'closed';
+
+/**
+ * Options d'une synchronisation du planning.
+ */
+export interface ReconcileOptions {
+  /** Calculer les changements sans les appliquer */
+  dryRun?: boolean;
+  /** Vérifier la présence et les boutons des messages de créneaux (une requête par salon) */
+  verifyMessages?: boolean;
+  /** Appelée après chaque changement appliqué avec succès */
+  onApplied?: (action: ReconcileAction) => void;
+}
+
+/**
+ * Créneau d'un jour et son remplissage.
+ */
+export interface SlotSummary {
+  /** Libellé du créneau */
+  slot: string;
+  /** Nombre d'inscrits */
+  count: number;
+  /** Nombre de places (null si illimité) */
+  capacity: number | null;
+}
+
+/**
+ * Inscription d'un membre sur un créneau.
+ */
+export interface MemberBooking {
+  /** Clé du jour (AAAA-MM-JJ) */
+  dateKey: string;
+  /** Label du jour (ex: "lundi 15 janvier") */
+  label: string;
+  /** Libellé du créneau */
+  slot: string;
+  /** Position en liste d'attente (null si inscrit) */
+  waitlistPosition: number | null;
+  /** Lien vers le message du créneau (null si le message n'existe plus) */
+  messageUrl: string | null;
+}
+
+/**
+ * Membre inscrit sur un créneau, tel qu'exposé par l'API HTTP (sans son ID Discord).
+ */
+export interface PlanningParticipant {
+  /** Nom affiché du membre */
+  name: string;
+}
+
+/**
+ * Inscriptions d'une journée de planning.
+ */
+export interface DayPlanning {
+  /** Label du jour (ex: "lundi 15 janvier") */
+  label: string;
+  /** Nom du salon de planning */
+  channelName: string;
+  /** Créneaux, inscrits et liste d'attente, dans l'ordre du planning */
+  slots: Array<{ slot: string; participants: PlanningParticipant[]; waitlist: PlanningParticipant[] }>;
+}
 
 /**
  * Gestionnaire du planning.
- * 
+ *
  * Responsabilités:
  * - Créer et maintenir les canaux Discord pour le planning
- * - Synchroniser périodiquement le planning
+ * - Appliquer les horaires en vigueur pour chaque date
+ * - Synchroniser périodiquement le planning : seuls les changements nécessaires sont appliqués,
+ *   au rythme d'une file d'attente limitée (voir `planReconciliation`)
+ * - Gérer les boutons d'inscription et de désinscription des créneaux
+ * - Limiter le nombre d'inscrits par créneau et afficher le remplissage ("4/6")
+ * - Gérer la liste d'attente des créneaux complets et inscrire automatiquement le premier en attente
+ * - Appliquer les inscriptions récurrentes à la création du salon de chaque jour
+ * - Reconstruire les messages de créneaux supprimés à partir des données
+ * - Archiver les inscriptions des jours passés avant la suppression de leur salon
+ * - Fermer les jours de fermeture (salon "fermé" ou aucun salon) et annuler leurs inscriptions
+ * - Fournir les inscriptions du jour
  *
  * @example
  * ```typescript
- * const planningManager = new PlanningManager(client, guildId);
+ * const planningManager = new PlanningManager(client, guildId, planningStore, schedule, closures, archive, recurring);
  * await planningManager.initialize();
  * ```
  */
@@ -28,51 +175,617 @@ export class PlanningManager {
   private categoryId: string | null = null;
   /** Tâche cron pour la maintenance automatique */
   private maintenanceTask: ReturnType<typeof cron.schedule> | null = null;
+  /** File des appels Discord des synchronisations */
+  private readonly queue = new ThrottledQueue(config.planning.syncThrottleMs);
+  /** Synchronisation en cours, pour ne jamais en exécuter deux en parallèle */
+  private reconciliation: Promise<unknown> = Promise.resolve();
 
   /**
    * Crée une nouvelle instance du gestionnaire de planning.
    *
    * @param {Client} client - Client Discord
    * @param {string} guildId - ID de la guilde Discord
+   * @param {PlanningStore} store - Modèle de données du planning
+   * @param {PlanningSchedule} schedule - Horaires du planning
+   * @param {ClosureCalendar} closures - Calendrier des fermetures de la salle
+   * @param {AttendanceArchive} archive - Archives de fréquentation
+   * @param {RecurringBookingService} recurring - Inscriptions récurrentes
    */
   constructor(
     private readonly client: Client,
-    private readonly guildId: string
+    private readonly guildId: string,
+    private readonly store: PlanningStore,
+    private readonly schedule: PlanningSchedule,
+    private readonly closures: ClosureCalendar,
+    private readonly archive: AttendanceArchive,
+    private readonly recurring: RecurringBookingService
   ) {}
 
   /**
    * Initialise le gestionnaire de planning.
-   * 
+   *
    * Actions effectuées:
+   * - Charge le modèle de planning, les fermetures, les archives et les inscriptions récurrentes sauvegardés
    * - Récupère ou crée la catégorie de planning
-   * - Synchronise les canaux de planning
+   * - Synchronise les canaux de planning, messages de créneaux compris
+   *   (republication des messages manquants, conversion des anciens messages à réactions)
    * - Programme la maintenance automatique
    *
    * @returns {Promise<void>} Promise qui se résout quand l'initialisation est terminée
    * @throws {Error} Si l'initialisation échoue (guilde introuvable, permissions insuffisantes, etc.)
    */
   async initialize(): Promise<void> {
-    const guild = await this.fetchGuild();
-    const category = await this.ensureCategory(guild);
-    this.categoryId = category.id;
+    await this.store.load();
+    await this.closures.load();
+    await this.archive.load();
+    await this.recurring.load();
 
-    await this.syncPlanning(guild, category);
+    await this.reconcile({ verifyMessages: true });
     this.scheduleMaintenance();
   }
 
   /**
    * Synchronise manuellement le planning (commande `/gym setup`).
-   * 
-   * Cette méthode est identique à `initialize()` mais peut être appelée
-   * manuellement via une commande slash.
+   * Contrairement à la maintenance automatique, les messages de créneaux sont vérifiés.
    *
-   * @returns {Promise<void>} Promise qui se résout quand la synchronisation est terminée
+   * @param {boolean} dryRun - Calculer les changements sans les appliquer
+   * @param {(action: ReconcileAction) => void} onApplied - Appelée après chaque changement appliqué,
+   *   pour connaître les changements déjà faits si la synchronisation échoue
+   * @returns {Promise<ReconcileReport>} Changements appliqués (ou à appliquer en aperçu)
    */
-  async syncPlanningCommand(): Promise<void> {
-    const guild = await this.fetchGuild();
-    const category = await this.ensureCategory(guild);
-    this.categoryId = category.id;
-    await this.syncPlanning(guild, category);
+  async syncPlanningCommand(
+    dryRun = false,
+    onApplied?: (action: ReconcileAction) => void
+  ): Promise<ReconcileReport> {
+    return this.reconcile({ dryRun, verifyMessages: true, onApplied });
+  }
+
+  /**
+   * Synchronise le planning Discord avec l'état attendu (jours de la fenêtre, horaires,
+   * fermetures, inscriptions enregistrées). Les synchronisations sont exécutées l'une après l'autre.
+   *
+   * @param {ReconcileOptions} options - Options de la synchronisation
+   * @returns {Promise<ReconcileReport>} Changements appliqués (ou à appliquer en aperçu)
+   */
+  async reconcile(options: ReconcileOptions = {}): Promise<ReconcileReport> {
+    const run = this.reconciliation
+      .catch(() => undefined)
+      .then(() => this.runReconciliation(options));
+    this.reconciliation = run;
+    return run;
+  }
+
+  /**
+   * Récupère les inscriptions du jour.
+   *
+   * @returns {Promise<DayPlanning | null>} Planning du jour ou null s'il n'existe pas
+   */
+  async getTodayPlanning(): Promise<DayPlanning | null> {
+    const day = describeDay(getTodayKey(config.timezone));
+    const record = this.store.getDay(day.dateKey);
+    if (!record) {
+      return null;
+    }
+
+    const names = await this.resolveNames(
+      Object.values(record.slots).flatMap(slot => [...slot.members, ...slot.waitlist])
+    );
+    const toParticipant = (id: string): PlanningParticipant => ({ name: names.get(id) ?? 'Membre inconnu' });
+
+    return {
+      label: record.label,
+      channelName: day.channelName,
+      slots: Object.entries(record.slots).map(([slot, slotRecord]) => ({
+        slot,
+        participants: slotRecord.members.map(toParticipant),
+        waitlist: slotRecord.waitlist.map(toParticipant)
+      }))
+    };
+  }
+
+  /**
+   * Gère les boutons "S'inscrire" et "Se désinscrire" d'un créneau.
+   * Répond au membre par un message éphémère.
+   *
+   * @param {ButtonInteraction} interaction - L'interaction de bouton
+   * @returns {Promise<void>} Promise qui se résout quand la réponse est envoyée
+   */
+  async handleButton(interaction: ButtonInteraction): Promise<void> {
+    const parsed = parseSlotButtonId(interaction.customId);
+    if (!parsed || !this.hasSlot(parsed.ref)) {
+      await interaction.reply({ content: 'Ce créneau n\'existe plus.', ephemeral: true });
+      return;
+    }
+
+    const { action, ref } = parsed;
+    await interaction.deferReply({ ephemeral: true });
+
+    await interaction.editReply(
+      action === PlanningButtonAction.Cancel
+        ? await this.cancelSlot(ref, interaction.user.id)
+        : await this.bookSlot(ref, interaction.user.id)
+    );
+  }
+
+  /**
+   * Inscrit un membre sur un créneau et décrit le résultat.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string} userId - ID Discord du membre
+   * @returns {Promise<string>} Réponse à afficher au membre
+   */
+  async bookSlot(ref: SlotRef, userId: string): Promise<string> {
+    const result = await this.signup(ref, userId);
+    const label = `${ref.slot} du ${this.getDayLabel(ref.dateKey)}`;
+    const position = this.store.getWaitlist(ref.dateKey, ref.slot).indexOf(userId) + 1;
+
+    const replies: Record<SignupResult, string> = {
+      booked: `Vous êtes inscrit sur le créneau ${label}.`,
+      waitlisted: `Le créneau ${label} est complet : vous êtes en liste d'attente (position ${position}), ` +
+        'vous serez prévenu si une place se libère.',
+      'already-booked': `Vous êtes déjà inscrit sur le créneau ${label}.`,
+      'already-waitlisted': `Vous êtes déjà en liste d'attente sur le créneau ${label} (position ${position}).`,
+      'unknown-slot': 'Ce créneau n\'existe plus.',
+      closed: `La salle est fermée le ${this.getDayLabel(ref.dateKey)}, les inscriptions sont impossibles.`
+    };
+    return replies[result];
+  }
+
+  /**
+   * Désinscrit un membre d'un créneau et décrit le résultat.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string} userId - ID Discord du membre
+   * @returns {Promise<string>} Réponse à afficher au membre
+   */
+  async cancelSlot(ref: SlotRef, userId: string): Promise<string> {
+    const label = `${ref.slot} du ${this.getDayLabel(ref.dateKey)}`;
+    return (await this.cancelSignup(ref, userId))
+      ? `Vous êtes désinscrit du créneau ${label}.`
+      : `Vous n'êtes pas inscrit sur le créneau ${label}.`;
+  }
+
+  /**
+   * Vérifie qu'un créneau existe dans le planning.
+   *
+   * @param {SlotRef} ref - Créneau recherché
+   * @returns {boolean} true si le créneau existe
+   */
+  hasSlot(ref: SlotRef): boolean {
+    return Boolean(this.store.getDay(ref.dateKey)?.slots[ref.slot]);
+  }
+
+  /**
+   * Récupère les jours du planning à partir d'aujourd'hui.
+   *
+   * @returns {Array<{ dateKey: string; label: string }>} Jours, dans l'ordre chronologique
+   */
+  getUpcomingDays(): Array<{ dateKey: string; label: string }> {
+    const today = getTodayKey(config.timezone);
+    return this.store
+      .getDays()
+      .filter(([dateKey]) => dateKey >= today)
+      .map(([dateKey, day]) => ({ dateKey, label: day.label }));
+  }
+
+  /**
+   * Récupère les créneaux d'un jour avec leur remplissage.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {SlotSummary[]} Créneaux du jour, dans l'ordre du planning
+   */
+  getDaySlots(dateKey: string): SlotSummary[] {
+    const day = this.store.getDay(dateKey);
+    if (!day) {
+      return [];
+    }
+
+    return Object.entries(day.slots).map(([slot, record]) => ({
+      slot,
+      count: record.members.length,
+      capacity: this.schedule.getCapacity(dateKey, slot)
+    }));
+  }
+
+  /**
+   * Récupère les surnoms des membres de la guilde.
+   *
+   * @param {string[]} userIds - IDs Discord des membres
+   * @returns {Promise<Map<string, string>>} Surnoms indexés par ID (membres introuvables absents)
+   */
+  async resolveNames(userIds: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    const uniqueIds = [...new Set(userIds)];
+    if (uniqueIds.length === 0) {
+      return names;
+    }
+
+    try {
+      const guild = await this.fetchGuild();
+      const members = await guild.members.fetch({ user: uniqueIds });
+      for (const member of members.values()) {
+        names.set(member.id, member.displayName);
+      }
+    } catch (error) {
+      logger.warn('Impossible de récupérer les surnoms des membres du planning.', error);
+    }
+
+    return names;
+  }
+
+  /**
+   * Récupère les créneaux de la prochaine occurrence d'un jour de la semaine
+   * (inscriptions récurrentes).
+   *
+   * @param {Weekday} weekday - Jour de la semaine
+   * @returns {string[]} Créneaux du jour, dans l'ordre du planning
+   */
+  getWeekdaySlots(weekday: Weekday): string[] {
+    const today = getTodayKey(config.timezone);
+    const offset = (WEEKDAYS.indexOf(weekday) - getWeekday(today) + 7) % 7;
+    return this.schedule.getSlots(addDays(today, offset));
+  }
+
+  /**
+   * Récupère les inscriptions à venir d'un membre, y compris ses places en liste d'attente.
+   * Les créneaux déjà terminés sont exclus.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {Date} now - Instant de référence (défaut: maintenant)
+   * @returns {MemberBooking[]} Inscriptions, dans l'ordre chronologique
+   */
+  getMemberBookings(userId: string, now: Date = new Date()): MemberBooking[] {
+    const bookings: MemberBooking[] = [];
+
+    for (const { dateKey, label } of this.getUpcomingDays()) {
+      const day = this.store.getDay(dateKey);
+      for (const [slot, record] of Object.entries(day?.slots ?? {})) {
+        const waitlistIndex = record.waitlist.indexOf(userId);
+        if (!record.members.includes(userId) && waitlistIndex === -1) {
+          continue;
+        }
+
+        // Les créneaux du jour déjà terminés ne sont plus à venir
+        if (getSlotBounds(dateKey, slot, config.timezone).end <= now) {
+          continue;
+        }
+
+        bookings.push({
+          dateKey,
+          label,
+          slot,
+          waitlistPosition: waitlistIndex === -1 ? null : waitlistIndex + 1,
+          messageUrl: day?.channelId && record.messageId
+            ? `https://discord.com/channels/${this.guildId}/${day.channelId}/${record.messageId}`
+            : null
+        });
+      }
+    }
+
+    return bookings;
+  }
+
+  /**
+   * Inscrit un membre sur un créneau.
+   * Si le créneau est complet, le membre est placé en liste d'attente.
+   * Les inscriptions sont refusées les jours de fermeture.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string} userId - ID Discord du membre
+   * @returns {Promise<SignupResult>} Résultat de l'inscription
+   */
+  async signup(ref: SlotRef, userId: string): Promise<SignupResult> {
+    if (this.closures.getClosure(ref.dateKey)) {
+      return 'closed';
+    }
+
+    const participants = this.store.getParticipants(ref.dateKey, ref.slot);
+    if (participants.includes(userId)) {
+      return 'already-booked';
+    }
+    if (this.store.getWaitlist(ref.dateKey, ref.slot).includes(userId)) {
+      return 'already-waitlisted';
+    }
+
+    const capacity = this.schedule.getCapacity(ref.dateKey, ref.slot);
+    if (capacity !== null && participants.length >= capacity) {
+      if (!this.store.addToWaitlist(ref, userId)) {
+        return 'unknown-slot';
+      }
+
+      logger.info(`Créneau complet, ${userId} en liste d'attente sur ${ref.dateKey} ${ref.slot}`);
+      await this.updateSlotMessage(ref);
+      return 'waitlisted';
+    }
+
+    if (!this.store.addMember(ref, userId)) {
+      return 'unknown-slot';
+    }
+
+    logger.info(`Inscription de ${userId} sur ${ref.dateKey} ${ref.slot}`);
+    await this.updateSlotMessage(ref);
+    return 'booked';
+  }
+
+  /**
+   * Annule l'inscription (ou la place en liste d'attente) d'un membre sur un créneau.
+   * Une place libérée est attribuée au premier membre de la liste d'attente, prévenu en message privé.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string} userId - ID Discord du membre
+   * @returns {Promise<boolean>} false si le membre n'était ni inscrit ni en attente
+   */
+  async cancelSignup(ref: SlotRef, userId: string): Promise<boolean> {
+    if (this.store.removeFromWaitlist(ref, userId)) {
+      logger.info(`${userId} quitte la liste d'attente de ${ref.dateKey} ${ref.slot}`);
+      await this.updateSlotMessage(ref);
+      return true;
+    }
+
+    if (!this.store.removeMember(ref, userId)) {
+      return false;
+    }
+
+    logger.info(`Désinscription de ${userId} de ${ref.dateKey} ${ref.slot}`);
+    const promoted = this.promoteWaitlist(ref);
+    await this.updateSlotMessage(ref);
+
+    for (const promotedId of promoted) {
+      await this.notifyMember(
+        promotedId,
+        `Une place s'est libérée : vous êtes inscrit sur le créneau ${ref.slot} du ${this.getDayLabel(ref.dateKey)}.`
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Récupère les journées archivées, de la plus récente à la plus ancienne.
+   *
+   * @returns {Array<{ dateKey: string; label: string }>} Journées archivées
+   */
+  getArchivedDays(): Array<{ dateKey: string; label: string }> {
+    return this.archive.getDays().map(([dateKey, day]) => ({ dateKey, label: day.label }));
+  }
+
+  /**
+   * Construit le résumé de fréquentation d'une journée archivée.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {EmbedBuilder | null} Résumé de la journée ou null si elle n'est pas archivée
+   */
+  getArchiveEmbed(dateKey: string): EmbedBuilder | null {
+    const day = this.archive.getDay(dateKey);
+    return day ? this.buildArchiveEmbed(day) : null;
+  }
+
+  /**
+   * Récupère la fermeture d'un jour.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {Closure | null} Fermeture du jour ou null si la salle est ouverte
+   */
+  getClosure(dateKey: string): Closure | null {
+    return this.closures.getClosure(dateKey);
+  }
+
+  /**
+   * Ferme la salle pour un jour (commande `/planning close`) et synchronise le planning.
+   * Les inscriptions du jour sont annulées et les membres concernés prévenus en message privé.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {string | null} reason - Raison de la fermeture
+   * @param {string} closedBy - ID Discord du membre ayant fermé la journée
+   * @returns {Promise<void>} Promise qui se résout quand le planning est synchronisé
+   */
+  async closeDay(dateKey: string, reason: string | null, closedBy: string): Promise<void> {
+    const wasClosed = Boolean(this.closures.getClosure(dateKey));
+    this.closures.close(dateKey, reason, closedBy);
+    logger.info(`Fermeture du ${dateKey} par ${closedBy}${reason ? ` (${reason})` : ''}`);
+
+    // Un salon "fermé" existant est recréé pour afficher la nouvelle raison
+    const channelId = this.store.getDay(dateKey)?.channelId;
+    if (wasClosed && channelId) {
+      const channel = await this.client.channels.fetch(channelId).catch(() => null);
+      if (channel?.type === ChannelType.GuildText) {
+        await channel.delete('Raison de fermeture modifiée');
+      }
+    }
+
+    await this.reconcile();
+  }
+
+  /**
+   * Rouvre la salle pour un jour fermé (commande `/planning reopen`) et synchronise le planning.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {Promise<boolean>} false si le jour n'était pas fermé
+   */
+  async reopenDay(dateKey: string): Promise<boolean> {
+    if (!this.closures.reopen(dateKey)) {
+      return false;
+    }
+
+    logger.info(`Réouverture du ${dateKey}`);
+    await this.reconcile();
+    return true;
+  }
+
+  /**
+   * Reconstruit un message de créneau supprimé à partir des données du planning.
+   *
+   * @param {Message | PartialMessage} message - Message supprimé
+   * @returns {Promise<void>} Promise qui se résout quand le créneau est reconstruit
+   */
+  async handleMessageDelete(message: Message | PartialMessage): Promise<void> {
+    const ref = this.store.findSlotByMessage(message.id);
+    if (!ref) {
+      return;
+    }
+
+    logger.warn(`Message du créneau ${ref.dateKey} ${ref.slot} supprimé, reconstruction.`);
+    this.store.setSlotMessage(ref, null);
+    await this.rebuildDay(ref.dateKey);
+  }
+
+  /**
+   * Republie les messages de créneaux manquants d'une journée à partir des données.
+   * Les inscriptions sont conservées dans le modèle de planning.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {Promise<void>} Promise qui se résout quand la journée est reconstruite
+   */
+  async rebuildDay(dateKey: string): Promise<void> {
+    const record = this.store.getDay(dateKey);
+    if (!record?.channelId) {
+      return;
+    }
+
+    const channel = await this.client.channels.fetch(record.channelId).catch(() => null);
+    if (!channel || channel.type !== ChannelType.GuildText) {
+      logger.warn(`Salon de planning introuvable pour ${dateKey}, reconstruction impossible.`);
+      return;
+    }
+
+    for (const [slot, slotRecord] of Object.entries(record.slots)) {
+      if (slotRecord.messageId) {
+        continue;
+      }
+
+      const message = await (channel as TextChannel).send(await this.buildSlotMessage(dateKey, slot));
+      this.store.setSlotMessage({ dateKey, slot }, message.id);
+    }
+  }
+
+  /**
+   * Met à jour le message d'un créneau (compteur et liste des inscrits).
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @returns {Promise<void>} Promise qui se résout quand le message est modifié
+   * @private
+   */
+  private async updateSlotMessage(ref: SlotRef): Promise<void> {
+    const record = this.store.getDay(ref.dateKey);
+    const messageId = record?.slots[ref.slot]?.messageId;
+    if (!record?.channelId || !messageId) {
+      return;
+    }
+
+    try {
+      const channel = await this.client.channels.fetch(record.channelId);
+      if (!channel || channel.type !== ChannelType.GuildText) {
+        return;
+      }
+
+      const message = await channel.messages.fetch(messageId);
+      await message.edit({ content: null, ...(await this.buildSlotMessage(ref.dateKey, ref.slot)) });
+
+      // Anciens messages à réactions : les réactions ne servent plus à l'inscription
+      if (message.reactions.cache.size > 0) {
+        await message.reactions.removeAll();
+      }
+    } catch (error) {
+      logger.warn(`Impossible de mettre à jour le message du créneau ${ref.dateKey} ${ref.slot}`, error);
+    }
+  }
+
+  /**
+   * Construit le message d'un créneau : embed (remplissage, inscrits, liste d'attente)
+   * et boutons d'inscription et de désinscription.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {string} slot - Libellé du créneau
+   * @returns {Promise<SlotMessage>} Contenu du message
+   * @private
+   */
+  private async buildSlotMessage(dateKey: string, slot: string): Promise<SlotMessage> {
+    const members = this.store.getParticipants(dateKey, slot);
+    const waitlist = this.store.getWaitlist(dateKey, slot);
+    const capacity = this.schedule.getCapacity(dateKey, slot);
+    const isFull = capacity !== null && members.length >= capacity;
+    const names = await this.resolveNames([...members, ...waitlist]);
+    const count = capacity !== null ? `${members.length}/${capacity}` : `${members.length} inscrit(s)`;
+
+    const embed = new EmbedBuilder()
+      .setTitle(`${slot} — ${count}`)
+      .setDescription(
+        members.length > 0
+          ? members.map(id => `• ${names.get(id) ?? `<@${id}>`}`).join('\n')
+          : 'Aucun inscrit pour le moment.'
+      )
+      .setColor(PLANNING_COLOR);
+
+    if (waitlist.length > 0) {
+      embed.addFields({
+        name: 'Liste d\'attente',
+        value: waitlist.map((id, index) => `${index + 1}. ${names.get(id) ?? `<@${id}>`}`).join('\n')
+      });
+    }
+
+    const ref = { dateKey, slot };
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(buildSlotButtonId(PlanningButtonAction.Book, ref))
+        .setLabel(isFull ? 'Liste d\'attente' : 'S\'inscrire')
+        .setStyle(isFull ? ButtonStyle.Secondary : ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(buildSlotButtonId(PlanningButtonAction.Cancel, ref))
+        .setLabel('Se désinscrire')
+        .setStyle(ButtonStyle.Danger)
+    );
+
+    return { embeds: [embed], components: [row] };
+  }
+
+  /**
+   * Inscrit les premiers membres de la liste d'attente tant qu'il reste des places.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @returns {string[]} IDs Discord des membres inscrits
+   * @private
+   */
+  private promoteWaitlist(ref: SlotRef): string[] {
+    const capacity = this.schedule.getCapacity(ref.dateKey, ref.slot);
+    const promoted: string[] = [];
+
+    while (capacity === null || this.store.getParticipants(ref.dateKey, ref.slot).length < capacity) {
+      const userId = this.store.promoteFromWaitlist(ref);
+      if (!userId) {
+        break;
+      }
+
+      logger.info(`${userId} inscrit depuis la liste d'attente sur ${ref.dateKey} ${ref.slot}`);
+      promoted.push(userId);
+    }
+
+    return promoted;
+  }
+
+  /**
+   * Récupère le label d'un jour de planning.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {string} Label du jour (ex: "lundi 15 janvier"), ou la clé si le jour est inconnu
+   * @private
+   */
+  private getDayLabel(dateKey: string): string {
+    return this.store.getDay(dateKey)?.label ?? dateKey;
+  }
+
+  /**
+   * Envoie un message privé à un membre.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {string} content - Contenu du message
+   * @returns {Promise<void>} Promise qui se résout quand le message est envoyé
+   * @private
+   */
+  private async notifyMember(userId: string, content: string): Promise<void> {
+    try {
+      await this.client.users.send(userId, content);
+    } catch (error) {
+      logger.warn(`Impossible d'envoyer un message privé à ${userId}`, error);
+    }
   }
 
   /**
@@ -115,107 +828,522 @@ export class PlanningManager {
   }
 
   /**
-   * Synchronise les canaux de planning avec les jours à venir.
-   * 
-   * Actions effectuées:
-   * - Supprime les canaux hors de la fenêtre autorisée
-   * - Crée les canaux manquants pour les jours à venir
-   * - Initialise les canaux créés avec les créneaux horaires
+   * Exécute une synchronisation : relève l'état des salons de la catégorie, calcule les
+   * changements nécessaires puis les applique un par un dans la file des appels Discord.
+   * Un changement en échec est journalisé sans interrompre les suivants ; il sera de nouveau
+   * détecté à la synchronisation suivante.
    *
-   * @param {Guild} guild - Guilde Discord
-   * @param {CategoryChannel} category - Catégorie de planning
+   * @param {ReconcileOptions} options - Options de la synchronisation
+   * @returns {Promise<ReconcileReport>} Changements appliqués (ou à appliquer en aperçu)
    * @private
    */
-  private async syncPlanning(guild: Guild, category: CategoryChannel): Promise<void> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const desiredChannels: Array<{ name: string; label: string }> = [];
-    const allowedNames = new Set<string>();
+  private async runReconciliation(options: ReconcileOptions): Promise<ReconcileReport> {
+    const guild = await this.fetchGuild();
+    const category = await this.ensureCategory(guild);
+    this.categoryId = category.id;
 
-    for (let i = 0; i < config.planning.daysAhead; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
+    const days = getPlanningDays(config.planning.daysAhead, config.timezone).map(day => ({
+      ...day,
+      closure: this.closures.getClosure(day.dateKey)
+    }));
+    const channels = await this.snapshotChannels(guild, category, options.verifyMessages ?? false);
+    const actions = planReconciliation(days, channels, this.store, this.schedule, config.planning.closedDayMode);
+    const report: ReconcileReport = { dryRun: options.dryRun ?? false, actions, failed: [] };
 
-      const dayLabel = date
-        .toLocaleDateString('fr-FR', {
-          weekday: 'long',
-          day: 'numeric',
-          month: 'long'
-        })
-        .toLowerCase();
+    if (report.dryRun || actions.length === 0) {
+      return report;
+    }
 
-      const channelName = dayLabel.replace(/\s+/g, '-');
-      desiredChannels.push({ name: channelName, label: dayLabel });
-      allowedNames.add(channelName);
+    for (const action of actions) {
+      try {
+        await this.queue.run(() => this.applyAction(action, guild, category));
+        options.onApplied?.(action);
+      } catch (error) {
+        logger.error(`Échec de la synchronisation du planning: ${describeReconcileAction(action)}`, error);
+        report.failed.push(action);
+      }
     }
 
-    const channels = guild.channels.cache.filter(
+    logger.info(
+      `Planning synchronisé: ${actions.length - report.failed.length} changement(s) appliqué(s), ` +
+      `${report.failed.length} échec(s).`
+    );
+    return report;
+  }
+
+  /**
+   * Relève l'état des salons de la catégorie de planning.
+   *
+   * @param {Guild} guild - Guilde Discord
+   * @param {CategoryChannel} category - Catégorie de planning
+   * @param {boolean} verifyMessages - Vérifier les messages de créneaux des salons enregistrés
+   * @returns {Promise<ChannelSnapshot[]>} État des salons
+   * @private
+   */
+  private async snapshotChannels(
+    guild: Guild,
+    category: CategoryChannel,
+    verifyMessages: boolean
+  ): Promise<ChannelSnapshot[]> {
+    const channels = [...guild.channels.cache.filter(
       channel =>
         channel.parentId === category.id &&
         channel.type === ChannelType.GuildText
-    );
+    ).values()] as TextChannel[];
+
+    const snapshots: ChannelSnapshot[] = [];
+    for (const channel of channels) {
+      const record = this.store.getDays().find(([, day]) => day.channelId === channel.id)?.[1];
+      const messageIds = Object.values(record?.slots ?? {})
+        .map(slot => slot.messageId)
+        .filter((id): id is string => id !== null);
+
+      snapshots.push({
+        id: channel.id,
+        name: channel.name,
+        position: channel.rawPosition,
+        messages: verifyMessages && record
+          ? await this.snapshotMessages(channel, messageIds)
+          : null
+      });
+    }
 
-    for (const channel of channels.values()) {
-      if (!allowedNames.has(channel.name)) {
-        logger.info(`Suppression du salon hors plage: ${channel.name}`);
-        await channel.delete('Salon de planning hors fenêtre autorisée');
+    return snapshots;
+  }
+
+  /**
+   * Vérifie la présence des messages de créneaux d'un salon et de leurs boutons.
+   *
+   * @param {TextChannel} channel - Salon de planning
+   * @param {string[]} messageIds - IDs des messages de créneaux enregistrés
+   * @returns {Promise<Map<string, boolean>>} Messages trouvés, avec la présence de leurs boutons
+   * @private
+   */
+  private async snapshotMessages(channel: TextChannel, messageIds: string[]): Promise<Map<string, boolean>> {
+    const found = new Map<string, boolean>();
+    const recent = await channel.messages.fetch({ limit: 100 });
+
+    for (const messageId of messageIds) {
+      let message: Message | null | undefined = recent.get(messageId);
+      if (!message) {
+        // Message plus ancien que les 100 derniers : seule une erreur "message inconnu" prouve son absence
+        message = await channel.messages.fetch(messageId).catch(error => {
+          if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownMessage) {
+            return null;
+          }
+          throw error;
+        });
+      }
+
+      if (message) {
+        found.set(messageId, message.components.length > 0);
       }
     }
 
-    for (const { name: channelName, label: dayLabel } of desiredChannels) {
-      const existingChannel = guild.channels.cache.find(
-        channel =>
-          channel.name === channelName &&
-          channel.parentId === category.id &&
-          channel.type === ChannelType.GuildText
-      ) as TextChannel | undefined;
+    return found;
+  }
 
-      if (existingChannel) {
-        continue;
+  /**
+   * Applique un changement de synchronisation.
+   *
+   * @param {ReconcileAction} action - Changement à appliquer
+   * @param {Guild} guild - Guilde Discord
+   * @param {CategoryChannel} category - Catégorie de planning
+   * @returns {Promise<void>} Promise qui se résout quand le changement est appliqué
+   * @private
+   */
+  private async applyAction(action: ReconcileAction, guild: Guild, category: CategoryChannel): Promise<void> {
+    switch (action.type) {
+      case 'archive-day':
+        await this.archiveDay(action.dateKey);
+        return;
+
+      case 'release-closed-day':
+        await this.releaseClosedDay(action.dateKey, action.closure);
+        return;
+
+      case 'delete-channel': {
+        logger.info(`Suppression du salon ${action.duplicate ? 'en double' : 'hors plage'}: ${action.name}`);
+        await guild.channels.cache.get(action.channelId)?.delete(
+          action.duplicate ? 'Salon de planning en double' : 'Salon de planning hors fenêtre autorisée'
+        );
+        return;
       }
 
-      logger.info(`Création du salon: ${channelName}`);
-      const newChannel = await guild.channels.create({
-        name: channelName,
-        type: ChannelType.GuildText,
-        parent: category
-      });
+      case 'create-channel': {
+        logger.info(`Création du salon: ${action.day.channelName}`);
+        const channel = await guild.channels.create({
+          name: action.day.channelName,
+          type: ChannelType.GuildText,
+          parent: category
+        });
+
+        if (action.closure) {
+          await this.initializeClosedChannel(channel, action.day, action.closure);
+        } else {
+          await this.initializePlanningChannel(channel, action.day);
+        }
+        return;
+      }
+
+      case 'import-channel':
+      case 'adopt-closed-channel': {
+        const channel = guild.channels.cache.get(action.channelId);
+        if (channel?.type !== ChannelType.GuildText) {
+          throw new Error(`Salon ${action.day.channelName} introuvable.`);
+        }
+
+        if (action.type === 'import-channel') {
+          await this.importPlanningChannel(channel, action.day);
+        } else {
+          this.store.setDay(action.day.dateKey, { label: action.day.label, channelId: channel.id, slots: {} });
+        }
+        return;
+      }
+
+      case 'add-slots':
+        this.addScheduledSlots(action.dateKey, action.slots);
+        return;
+
+      case 'post-slot':
+        await this.postSlotMessage(action.ref);
+        return;
+
+      case 'refresh-slot':
+        await this.updateSlotMessage(action.ref);
+        return;
+
+      case 'reorder-channels': {
+        const channelIds = action.dateKeys
+          .map(dateKey => this.store.getDay(dateKey)?.channelId)
+          .filter((id): id is string => Boolean(id && guild.channels.cache.has(id)));
+        const base = Math.min(
+          ...channelIds.map(id => (guild.channels.cache.get(id) as TextChannel | undefined)?.rawPosition ?? 0)
+        );
+
+        await guild.channels.setPositions(
+          channelIds.map((channel, index) => ({ channel, position: base + index }))
+        );
+        return;
+      }
+
+      case 'remove-day':
+        this.store.removeDay(action.dateKey);
+        return;
+    }
+  }
+
+  /**
+   * Archive les inscriptions d'un jour passé, le retire du modèle de planning
+   * et publie le résumé dans le salon d'archives s'il est configuré.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {Promise<void>} Promise qui se résout quand la journée est archivée
+   * @private
+   */
+  private async archiveDay(dateKey: string): Promise<void> {
+    const record = this.store.getDay(dateKey);
+    if (!record) {
+      return;
+    }
+
+    const day = this.archive.archiveDay(dateKey, record, slot => this.schedule.getCapacity(dateKey, slot));
+    this.store.removeDay(dateKey);
+    logger.info(`Inscriptions du ${day.label} archivées.`);
+
+    if (!config.planning.archiveChannelId) {
+      return;
+    }
+
+    // L'archive est déjà sauvegardée : un échec de publication ne doit pas la remettre en cause
+    try {
+      const channel = await this.client.channels.fetch(config.planning.archiveChannelId);
+      if (channel?.type !== ChannelType.GuildText) {
+        logger.warn(`Salon d'archives ${config.planning.archiveChannelId} introuvable ou non textuel.`);
+        return;
+      }
+
+      await channel.send({ embeds: [this.buildArchiveEmbed(day)], allowedMentions: { parse: [] } });
+    } catch (error) {
+      logger.warn(`Impossible de publier l'archive du ${day.label}`, error);
+    }
+  }
 
-      await this.initializePlanningChannel(newChannel, dayLabel);
+  /**
+   * Construit le résumé de fréquentation d'une journée archivée : un champ par créneau
+   * avec le remplissage, les inscrits et la liste d'attente.
+   *
+   * @param {ArchivedDay} day - Journée archivée
+   * @returns {EmbedBuilder} Résumé de la journée
+   * @private
+   */
+  private buildArchiveEmbed(day: ArchivedDay): EmbedBuilder {
+    const total = day.slots.reduce((sum, slot) => sum + slot.members.length, 0);
+    const title = `Fréquentation du ${day.label}`;
+    let description = `${total} inscription(s) sur ${day.slots.length} créneau(x)`;
+
+    // Les champs s'arrêtent avant la limite totale d'un embed, mention des créneaux non affichés comprise
+    let budget = MAX_EMBED_LENGTH - title.length - description.length - 50;
+    const fields: Array<{ name: string; value: string }> = [];
+    for (const slot of day.slots.slice(0, 25)) {
+      const count = slot.capacity !== null
+        ? `${slot.members.length}/${slot.capacity}`
+        : `${slot.members.length} inscrit(s)`;
+      const name = `${slot.slot} — ${count}`;
+
+      // Laisse de la place à la liste d'attente dans le champ
+      const membersLine = slot.members.length > 0
+        ? joinMentions(slot.members, slot.waitlist.length > 0 ? MAX_FIELD_LENGTH / 2 : MAX_FIELD_LENGTH)
+        : 'Personne';
+      const lines = [membersLine];
+      if (slot.waitlist.length > 0) {
+        const prefix = 'Liste d\'attente : ';
+        lines.push(`${prefix}${joinMentions(slot.waitlist, MAX_FIELD_LENGTH - membersLine.length - prefix.length - 1)}`);
+      }
+
+      const value = lines.join('\n');
+      budget -= name.length + value.length;
+      if (budget < 0) {
+        break;
+      }
+      fields.push({ name, value });
+    }
+
+    if (fields.length < day.slots.length) {
+      description += `\n… ${day.slots.length - fields.length} créneau(x) non affiché(s).`;
+    }
+
+    return new EmbedBuilder()
+      .setTitle(title)
+      .setColor(PLANNING_COLOR)
+      .setDescription(description)
+      .setTimestamp(new Date(day.archivedAt))
+      .addFields(fields);
+  }
+
+  /**
+   * Publie le message d'un créneau dans le salon de son jour.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @returns {Promise<void>} Promise qui se résout quand le message est publié
+   * @throws {Error} Si le salon du jour est introuvable
+   * @private
+   */
+  private async postSlotMessage(ref: SlotRef): Promise<void> {
+    const channelId = this.store.getDay(ref.dateKey)?.channelId;
+    const channel = channelId ? await this.client.channels.fetch(channelId) : null;
+    if (channel?.type !== ChannelType.GuildText) {
+      throw new Error(`Salon de planning introuvable pour ${ref.dateKey}.`);
     }
+
+    const message = await channel.send(await this.buildSlotMessage(ref.dateKey, ref.slot));
+    this.store.setSlotMessage(ref, message.id);
   }
 
   /**
-   * Initialise un nouveau canal de planning avec les créneaux horaires.
+   * Initialise un nouveau canal de planning avec son message d'en-tête
+   * et enregistre la journée et ses créneaux dans le modèle de planning.
+   * Les inscriptions récurrentes du jour de la semaine sont ajoutées avant la publication des créneaux.
+   * Les messages de créneaux sont publiés ensuite par la synchronisation : si le bot s'arrête
+   * entre-temps, les messages manquants sont publiés à la synchronisation suivante.
    *
    * @param {TextChannel} channel - Canal Discord à initialiser
-   * @param {string} dayLabel - Label du jour (ex: "lundi 15 janvier")
+   * @param {PlanningDay} day - Jour de planning
    * @private
    */
-  private async initializePlanningChannel(channel: TextChannel, dayLabel: string): Promise<void> {
+  private async initializePlanningChannel(channel: TextChannel, day: PlanningDay): Promise<void> {
+    // Un salon recréé (suppression manuelle) conserve les inscriptions déjà enregistrées
+    const record: DayRecord = {
+      label: day.label,
+      channelId: channel.id,
+      slots: Object.fromEntries(
+        this.schedule.getSlots(day.dateKey).map(slot => [
+          slot,
+          {
+            messageId: null,
+            members: this.store.getParticipants(day.dateKey, slot),
+            waitlist: this.store.getWaitlist(day.dateKey, slot)
+          }
+        ])
+      )
+    };
+    this.store.setDay(day.dateKey, record);
+    this.applyRecurringBookings(day.dateKey);
+
     await channel.send({
       embeds: [
         {
-          title: `Planning pour ${dayLabel}`,
-          description: 'Réagissez avec ✅ sur un créneau pour indiquer votre présence.',
-          color: 0xd80c44
+          title: `Planning pour ${day.label}`,
+          description: 'Utilisez les boutons sous chaque créneau pour vous inscrire ou vous désinscrire.',
+          color: PLANNING_COLOR
         }
       ]
     });
+  }
+
+  /**
+   * Initialise le canal d'un jour de fermeture avec la raison de la fermeture, sans créneaux,
+   * et enregistre la journée dans le modèle de planning.
+   *
+   * @param {TextChannel} channel - Canal Discord à initialiser
+   * @param {PlanningDay} day - Jour de planning
+   * @param {Closure} closure - Fermeture du jour
+   * @private
+   */
+  private async initializeClosedChannel(channel: TextChannel, day: PlanningDay, closure: Closure): Promise<void> {
+    this.store.setDay(day.dateKey, { label: day.label, channelId: channel.id, slots: {} });
+
+    await channel.send({
+      embeds: [
+        {
+          title: `Salle fermée le ${day.label}`,
+          description: [
+            closure.reason ? `Raison : ${closure.reason}` : null,
+            'Aucun créneau n\'est ouvert aux inscriptions ce jour-là.'
+          ].filter(Boolean).join('\n\n'),
+          color: PLANNING_COLOR
+        }
+      ]
+    });
+  }
+
+  /**
+   * Annule les inscriptions et listes d'attente d'un jour de fermeture
+   * et prévient les membres concernés en message privé.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {Closure} closure - Fermeture du jour
+   * @private
+   */
+  private async releaseClosedDay(dateKey: string, closure: Closure): Promise<void> {
+    const record = this.store.getDay(dateKey);
+    if (!record || Object.keys(record.slots).length === 0) {
+      return;
+    }
+
+    const userIds = new Set(Object.values(record.slots).flatMap(slot => [...slot.members, ...slot.waitlist]));
+    this.store.setDay(dateKey, { ...record, slots: {} });
+    logger.info(`Salle fermée le ${record.label}: inscriptions de ${userIds.size} membre(s) annulées.`);
 
-    for (const slot of config.planning.timeSlots) {
-      const message = await channel.send(slot);
-      await message.react('✅');
+    const reason = closure.reason ? ` (${closure.reason})` : '';
+    for (const userId of userIds) {
+      await this.notifyMember(
+        userId,
+        `La salle sera fermée le ${record.label}${reason} : vos inscriptions de ce jour sont annulées.`
+      );
+    }
+  }
+
+  /**
+   * Importe dans le modèle de planning un canal existant (créé avant la mise en place
+   * du modèle, ou dont les données ont été perdues) à partir des réactions ✅ des anciens messages.
+   * Les inscriptions déjà enregistrées pour ce jour sont conservées : les réactions ne font
+   * qu'ajouter les membres absents, après elles.
+   * Les messages importés sont convertis au format embed avec boutons au démarrage suivant
+   * ou lors de la prochaine modification du créneau.
+   *
+   * @param {TextChannel} channel - Canal Discord existant
+   * @param {PlanningDay} day - Jour de planning
+   * @private
+   */
+  private async importPlanningChannel(channel: TextChannel, day: PlanningDay): Promise<void> {
+    const messages = await channel.messages.fetch({ limit: 100 });
+    const existing = this.store.getDay(day.dateKey);
+    const record: DayRecord = { label: day.label, channelId: channel.id, slots: {} };
+    const slots = new Set([...this.schedule.getSlots(day.dateKey), ...Object.keys(existing?.slots ?? {})]);
+
+    for (const slot of slots) {
+      const message = messages.find(candidate =>
+        candidate.content.split('\n')[0].startsWith(slot) || candidate.embeds[0]?.title?.startsWith(slot)
+      );
+      const reaction = message?.reactions.cache.get(LEGACY_SIGNUP_EMOJI);
+      const users = reaction ? await reaction.users.fetch() : null;
+
+      const members = this.store.getParticipants(day.dateKey, slot);
+      const waitlist = this.store.getWaitlist(day.dateKey, slot);
+      const newcomers = users
+        ? [...users.values()]
+          .filter(user => !user.bot && !members.includes(user.id) && !waitlist.includes(user.id))
+          .map(user => user.id)
+        : [];
+
+      // Les réactions au-delà des places restantes passent en liste d'attente
+      const capacity = this.schedule.getCapacity(day.dateKey, slot);
+      const seats = capacity === null ? newcomers.length : Math.max(0, capacity - members.length);
+      record.slots[slot] = {
+        messageId: message?.id ?? existing?.slots[slot]?.messageId ?? null,
+        members: [...members, ...newcomers.slice(0, seats)],
+        waitlist: [...waitlist, ...newcomers.slice(seats)]
+      };
+    }
+
+    this.store.setDay(day.dateKey, record);
+    logger.info(`Salon de planning importé: ${channel.name}`);
+    await this.rebuildDay(day.dateKey);
+  }
+
+  /**
+   * Ajoute à une journée existante des créneaux des horaires qu'elle ne contient pas encore
+   * (fichier d'horaires modifié après la création du salon). Leurs messages sont publiés
+   * par la synchronisation.
+   * Les créneaux retirés des horaires sont conservés pour ne pas perdre d'inscriptions.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {string[]} missing - Créneaux à ajouter
+   * @private
+   */
+  private addScheduledSlots(dateKey: string, missing: string[]): void {
+    const record = this.store.getDay(dateKey);
+    if (!record) {
+      return;
+    }
+
+    const slots = { ...record.slots };
+    for (const slot of missing) {
+      slots[slot] = { messageId: null, members: [], waitlist: [] };
+    }
+
+    this.store.setDay(dateKey, { ...record, slots });
+    logger.info(`Créneaux ajoutés au ${record.label}: ${missing.join(', ')}`);
+  }
+
+  /**
+   * Inscrit les membres ayant une inscription récurrente sur les créneaux d'un nouveau jour,
+   * dans l'ordre de création des inscriptions récurrentes : au-delà de la capacité du créneau,
+   * les membres sont placés en liste d'attente. Chaque jour n'est traité qu'une fois.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @private
+   */
+  private applyRecurringBookings(dateKey: string): void {
+    for (const booking of this.recurring.claimDay(dateKey)) {
+      const ref = { dateKey, slot: booking.slot };
+      const participants = this.store.getParticipants(dateKey, booking.slot);
+      if (
+        !this.hasSlot(ref) ||
+        participants.includes(booking.userId) ||
+        this.store.getWaitlist(dateKey, booking.slot).includes(booking.userId)
+      ) {
+        continue;
+      }
+
+      const capacity = this.schedule.getCapacity(dateKey, booking.slot);
+      if (capacity !== null && participants.length >= capacity) {
+        this.store.addToWaitlist(ref, booking.userId);
+      } else {
+        this.store.addMember(ref, booking.userId);
+      }
+      logger.info(`Inscription récurrente de ${booking.userId} sur ${dateKey} ${booking.slot}`);
     }
   }
 
   /**
    * Programme la maintenance automatique du planning.
    * La tâche est planifiée selon l'expression cron configurée.
-   * 
+   *
    * Actions de maintenance:
-   * - Synchronise les canaux de planning
+   * - Synchronise les canaux de planning, sans vérifier les messages de créneaux
+   *   (uniquement le cache Discord : aucune requête quand le planning est à jour)
    *
    * @private
    */
@@ -229,10 +1357,7 @@ export class PlanningManager {
       config.planning.maintenanceCron,
       async () => {
         try {
-          const guild = await this.fetchGuild();
-          const category = await this.ensureCategory(guild);
-          this.categoryId = category.id;
-          await this.syncPlanning(guild, category);
+          await this.reconcile();
         } catch (error) {
           logger.error('Erreur lors de la synchronisation planifiée du planning.', error);
         }
@@ -242,3 +1367,62 @@ export class PlanningManager {
   }
 }
 
+/**
+ * Construit l'identifiant d'un bouton de créneau.
+ * Le créneau "18:00 - 20:00" est encodé "1800-2000".
+ *
+ * @param {PlanningButtonAction} action - Action du bouton
+ * @param {SlotRef} ref - Créneau concerné
+ * @returns {string} Identifiant du bouton (ex: "planning:book:2025-01-15:1800-2000")
+ */
+export function buildSlotButtonId(action: PlanningButtonAction, ref: SlotRef): string {
+  const slot = ref.slot.replace(/:/g, '').replace(' - ', '-');
+  return [PLANNING_BUTTON_PREFIX, action, ref.dateKey, slot].join(':');
+}
+
+/**
+ * Décode l'identifiant d'un bouton de créneau.
+ *
+ * @param {string} customId - Identifiant du bouton
+ * @returns {{ action: PlanningButtonAction; ref: SlotRef } | null} Action et créneau, ou null si invalide
+ */
+function parseSlotButtonId(customId: string): { action: PlanningButtonAction; ref: SlotRef } | null {
+  const [prefix, action, dateKey, slot] = customId.split(':');
+  const match = /^(\d{2})(\d{2})-(\d{2})(\d{2})$/.exec(slot ?? '');
+  const actions: string[] = [PlanningButtonAction.Book, PlanningButtonAction.Cancel];
+
+  if (prefix !== PLANNING_BUTTON_PREFIX || !actions.includes(action) || !dateKey || !match) {
+    return null;
+  }
+
+  return {
+    action: action as PlanningButtonAction,
+    ref: { dateKey, slot: `${match[1]}:${match[2]} - ${match[3]}:${match[4]}` }
+  };
+}
+
+/**
+ * Liste des mentions de membres, arrêtée mention par mention avant la longueur maximale
+ * pour ne jamais couper une mention.
+ *
+ * @param {string[]} userIds - IDs Discord des membres
+ * @param {number} maxLength - Longueur maximale de la liste
+ * @returns {string} Mentions séparées par des virgules (ex: "<@1>, <@2>, … +3")
+ */
+function joinMentions(userIds: string[], maxLength: number): string {
+  const shown: string[] = [];
+  for (const [index, id] of userIds.entries()) {
+    const next = [...shown, `<@${id}>`].join(', ');
+    // Réserve la place de la mention des membres restants
+    const rest = index < userIds.length - 1 ? `, … +${userIds.length - index - 1}`.length : 0;
+    if (next.length + rest > maxLength) {
+      break;
+    }
+    shown.push(`<@${id}>`);
+  }
+
+  if (shown.length < userIds.length) {
+    shown.push(`… +${userIds.length - shown.length}`);
+  }
+  return shown.join(', ');
+}
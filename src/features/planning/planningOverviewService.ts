@@ -0,0 +1,338 @@
+import {
+  ChannelType,
+  Client,
+  DiscordAPIError,
+  EmbedBuilder,
+  RESTJSONErrorCodes,
+  TextChannel
+} from 'discord.js';
+
+import { config } from '../../config/env';
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+import { PlanningManager } from './planningManager';
+import { PlanningStore } from './planningStore';
+
+/**
+ * Délai de regroupement des modifications du planning avant la mise à jour du message.
+ */
+const OVERVIEW_DELAY_MS = 5000;
+
+/**
+ * Largeur d'une colonne de jour dans la grille (ex: "lun 15").
+ */
+const COLUMN_WIDTH = 6;
+
+/**
+ * Nombre maximal de jours par grille : au-delà, la grille est découpée en plusieurs blocs
+ * pour rester lisible sur mobile.
+ */
+const GRID_DAYS_PER_BLOCK = 4;
+
+/**
+ * Longueur maximale de la description d'un embed Discord.
+ */
+const MAX_DESCRIPTION_LENGTH = 4096;
+
+/**
+ * Longueur totale maximale d'un embed Discord (titre, description, champs et pied de page).
+ */
+const MAX_EMBED_LENGTH = 6000;
+
+/**
+ * Données sauvegardées du message récapitulatif.
+ */
+export interface OverviewData {
+  /** ID du salon du message (null tant qu'il n'a pas été publié) */
+  channelId: string | null;
+  /** ID du message récapitulatif (null tant qu'il n'a pas été publié) */
+  messageId: string | null;
+}
+
+/**
+ * Service du message récapitulatif de la semaine.
+ *
+ * Responsabilités:
+ * - Publier et épingler dans le salon configuré un message récapitulatif du planning :
+ *   grille jours × créneaux avec le nombre d'inscrits, liens vers les salons des jours
+ *   et, si activé, initiales des inscrits
+ * - Modifier ce message à chaque changement du planning (inscriptions, rotation des jours
+ *   à chaque synchronisation), les changements rapprochés étant regroupés
+ * - Republier le message s'il a été supprimé ou si le salon configuré a changé
+ *
+ * @example
+ * ```typescript
+ * const overviewService = new PlanningOverviewService(client, planningStore, planningManager, store);
+ * await overviewService.initialize();
+ * ```
+ */
+export class PlanningOverviewService {
+  /** Données du message récapitulatif */
+  private data: OverviewData = { channelId: null, messageId: null };
+  /** Timer de la prochaine mise à jour */
+  private updateTimer: NodeJS.Timeout | null = null;
+  /** Mise à jour en cours, les mises à jour étant exécutées l'une après l'autre */
+  private updating: Promise<void> = Promise.resolve();
+
+  /**
+   * Crée une nouvelle instance du service du message récapitulatif.
+   *
+   * @param {Client} client - Client Discord
+   * @param {PlanningStore} planningStore - Modèle de données du planning
+   * @param {PlanningManager} planningManager - Gestionnaire du planning
+   * @param {JsonStore<OverviewData>} store - Stockage local de l'ID du message
+   */
+  constructor(
+    private readonly client: Client,
+    private readonly planningStore: PlanningStore,
+    private readonly planningManager: PlanningManager,
+    private readonly store: JsonStore<OverviewData>
+  ) {}
+
+  /**
+   * Charge le message sauvegardé, s'abonne aux modifications du planning
+   * et met le message à jour.
+   * Ne fait rien si le salon du message récapitulatif n'est pas configuré.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le message est à jour
+   */
+  async initialize(): Promise<void> {
+    if (!config.planning.overview.channelId) {
+      logger.info('Message récapitulatif du planning désactivé.');
+      return;
+    }
+
+    const saved = await this.store.read();
+    this.data = { channelId: saved?.channelId ?? null, messageId: saved?.messageId ?? null };
+
+    this.planningStore.onChange(() => this.scheduleUpdate());
+    await this.update();
+  }
+
+  /**
+   * Met à jour le message récapitulatif, ou le publie s'il n'existe pas.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le message est à jour
+   */
+  update(): Promise<void> {
+    const run = this.updating.then(() => this.applyUpdate());
+    this.updating = run.catch(error => {
+      logger.error('Erreur lors de la mise à jour du message récapitulatif du planning.', error);
+    });
+    return this.updating;
+  }
+
+  /**
+   * Construit l'embed du message récapitulatif.
+   *
+   * @returns {Promise<EmbedBuilder>} Embed récapitulatif des jours du planning à venir
+   */
+  async buildEmbed(): Promise<EmbedBuilder> {
+    const days = this.planningManager.getUpcomingDays().map(({ dateKey, label }) => ({
+      dateKey,
+      label,
+      closed: this.planningManager.getClosure(dateKey) !== null,
+      slots: this.planningManager.getDaySlots(dateKey)
+    }));
+
+    const embed = new EmbedBuilder()
+      .setTitle('Planning de la semaine')
+      .setColor(0x3498db)
+      .setFooter({ text: 'Mis à jour automatiquement à chaque inscription' })
+      .setTimestamp();
+
+    if (days.length === 0) {
+      return embed.setDescription('Aucun jour de planning pour le moment.');
+    }
+
+    const rows = [...new Set(days.flatMap(day => day.slots.map(({ slot }) => slot)))]
+      .sort((a, b) => a.localeCompare(b));
+    const rowWidth = Math.max(...rows.map(slot => formatSlot(slot).length), 'Créneau'.length);
+
+    // Une grille par bloc de jours, tant que la description ne dépasse pas la limite de Discord
+    const blocks: string[] = [];
+    let shownDays = 0;
+    for (let index = 0; index < days.length; index += GRID_DAYS_PER_BLOCK) {
+      const blockDays = days.slice(index, index + GRID_DAYS_PER_BLOCK);
+      const lines = [
+        ['Créneau'.padEnd(rowWidth), ...blockDays.map(day => formatColumn(day.label))].join(' '),
+        ...rows.map(slot => [
+          formatSlot(slot).padEnd(rowWidth),
+          ...blockDays.map(day => {
+            if (day.closed) {
+              return 'fermé'.padStart(COLUMN_WIDTH);
+            }
+            const summary = day.slots.find(item => item.slot === slot);
+            const cell = !summary
+              ? '·'
+              : summary.capacity !== null
+                ? `${summary.count}/${summary.capacity}`
+                : `${summary.count}`;
+            return cell.padStart(COLUMN_WIDTH);
+          })
+        ].join(' '))
+      ];
+
+      const block = `\`\`\`\n${lines.join('\n')}\n\`\`\``;
+      // Réserve la place de la mention des jours non affichés
+      if ([...blocks, block].join('\n').length > MAX_DESCRIPTION_LENGTH - 50) {
+        break;
+      }
+      blocks.push(block);
+      shownDays += blockDays.length;
+    }
+
+    if (shownDays < days.length) {
+      blocks.push(`… ${days.length - shownDays} jour(s) non affiché(s).`);
+    }
+
+    const names = config.planning.overview.showInitials
+      ? await this.planningManager.resolveNames(
+        days.flatMap(day => day.slots.flatMap(({ slot }) => this.planningStore.getParticipants(day.dateKey, slot)))
+      )
+      : new Map<string, string>();
+
+    const description = blocks.join('\n').slice(0, MAX_DESCRIPTION_LENGTH);
+
+    // Les champs s'arrêtent avant la limite totale d'un embed (titre et pied de page compris)
+    let budget = MAX_EMBED_LENGTH - description.length - 200;
+    const fields: Array<{ name: string; value: string }> = [];
+    for (const day of days.slice(0, 25)) {
+      const channelId = this.planningStore.getDay(day.dateKey)?.channelId;
+      const value = [channelId ? `<#${channelId}>` : 'Salon pas encore créé'];
+
+      if (config.planning.overview.showInitials && !day.closed) {
+        for (const { slot } of day.slots) {
+          const initials = this.planningStore
+            .getParticipants(day.dateKey, slot)
+            .map(userId => getInitials(names.get(userId)));
+          if (initials.length > 0) {
+            value.push(`${slot} : ${initials.join(', ')}`);
+          }
+        }
+      }
+
+      const field = { name: day.closed ? `${day.label} (fermé)` : day.label, value: value.join('\n').slice(0, 1024) };
+      budget -= field.name.length + field.value.length;
+      if (budget < 0) {
+        break;
+      }
+      fields.push(field);
+    }
+
+    return embed.setDescription(description).addFields(fields);
+  }
+
+  /**
+   * Programme la mise à jour du message.
+   * Les modifications rapprochées du planning sont regroupées en une seule mise à jour.
+   *
+   * @private
+   */
+  private scheduleUpdate(): void {
+    if (this.updateTimer) {
+      return;
+    }
+
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = null;
+      void this.update();
+    }, OVERVIEW_DELAY_MS);
+  }
+
+  /**
+   * Modifie le message récapitulatif, ou le publie et l'épingle s'il est introuvable.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le message est à jour
+   * @private
+   */
+  private async applyUpdate(): Promise<void> {
+    const channel = await this.fetchChannel();
+    if (!channel) {
+      return;
+    }
+
+    const payload = { embeds: [await this.buildEmbed()], allowedMentions: { parse: [] } };
+
+    if (this.data.messageId && this.data.channelId === channel.id) {
+      try {
+        const message = await channel.messages.fetch(this.data.messageId);
+        await message.edit(payload);
+        return;
+      } catch (error) {
+        if (!(error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownMessage)) {
+          throw error;
+        }
+        logger.warn('Message récapitulatif du planning supprimé, nouvelle publication.');
+      }
+    }
+
+    const message = await channel.send(payload);
+    try {
+      await message.pin();
+    } catch (error) {
+      logger.warn('Impossible d\'épingler le message récapitulatif du planning.', error);
+    }
+
+    this.data = { channelId: channel.id, messageId: message.id };
+    this.store.write(this.data).catch(error => {
+      logger.error('Impossible de sauvegarder le message récapitulatif du planning.', error);
+    });
+    logger.info(`Message récapitulatif du planning publié dans ${channel.name}.`);
+  }
+
+  /**
+   * Récupère le salon du message récapitulatif.
+   *
+   * @returns {Promise<TextChannel | null>} Salon du message ou null s'il est introuvable
+   * @private
+   */
+  private async fetchChannel(): Promise<TextChannel | null> {
+    const channelId = config.planning.overview.channelId;
+    const channel = channelId ? await this.client.channels.fetch(channelId).catch(() => null) : null;
+    if (channel?.type !== ChannelType.GuildText) {
+      logger.warn(`Salon du message récapitulatif ${channelId} introuvable ou non textuel.`);
+      return null;
+    }
+    return channel;
+  }
+}
+
+/**
+ * Formate un créneau pour la grille (ex: "18:00 - 20:00" → "18:00-20:00").
+ *
+ * @param {string} slot - Libellé du créneau
+ * @returns {string} Libellé compact
+ */
+function formatSlot(slot: string): string {
+  return slot.replace(/\s+/g, '');
+}
+
+/**
+ * Formate l'en-tête de colonne d'un jour (ex: "lundi 15 janvier" → "lun 15").
+ *
+ * @param {string} label - Label du jour
+ * @returns {string} En-tête de colonne
+ */
+function formatColumn(label: string): string {
+  const [weekday = '', day = ''] = label.split(' ');
+  return `${weekday.slice(0, 3)} ${day}`.padStart(COLUMN_WIDTH);
+}
+
+/**
+ * Calcule les initiales d'un membre (ex: "Jean Dupont" → "JD", "Alex" → "Al").
+ *
+ * @param {string | undefined} name - Surnom du membre (undefined s'il est introuvable)
+ * @returns {string} Initiales, "?" si le surnom est inconnu
+ */
+function getInitials(name: string | undefined): string {
+  const words = (name ?? '').split(/[\s_.-]+/).filter(word => word.length > 0);
+  if (words.length === 0) {
+    return '?';
+  }
+  if (words.length === 1) {
+    const [first = '', second = ''] = [...words[0]];
+    return first.toUpperCase() + second.toLowerCase();
+  }
+  return words.slice(0, 2).map(word => [...word][0].toUpperCase()).join('');
+}
@@ -0,0 +1,299 @@
+import { ClosedDayMode } from '../../config/env';
+import { formatDayLabel } from '../../utils/calendar';
+import { Closure } from './closureCalendar';
+import { PlanningDay } from './planningCalendar';
+import { PlanningSchedule } from './planningSchedule';
+import { PlanningStore, SlotRef } from './planningStore';
+
+/**
+ * Suffixe du nom des salons des jours de fermeture (ex: "jeudi-25-décembre-fermé").
+ */
+const CLOSED_CHANNEL_SUFFIX = '-fermé';
+
+/**
+ * Changement nécessaire pour aligner le planning Discord sur l'état attendu.
+ */
+export type ReconcileAction =
+  /** Archiver les inscriptions d'un jour passé, puis le retirer du modèle */
+  | { type: 'archive-day'; dateKey: string }
+  /** Annuler les inscriptions d'un jour de fermeture et prévenir les membres */
+  | { type: 'release-closed-day'; dateKey: string; closure: Closure }
+  /** Supprimer un salon hors fenêtre ou en double */
+  | { type: 'delete-channel'; channelId: string; name: string; duplicate: boolean }
+  /** Créer le salon d'un jour (créneaux publiés par des actions `post-slot`) */
+  | { type: 'create-channel'; day: PlanningDay; closure: Closure | null }
+  /** Importer un salon existant inconnu du modèle */
+  | { type: 'import-channel'; channelId: string; day: PlanningDay }
+  /** Enregistrer un salon "fermé" existant inconnu du modèle */
+  | { type: 'adopt-closed-channel'; channelId: string; day: PlanningDay }
+  /** Ajouter au modèle les créneaux apparus dans les horaires */
+  | { type: 'add-slots'; dateKey: string; slots: string[] }
+  /** Publier le message manquant d'un créneau */
+  | { type: 'post-slot'; ref: SlotRef }
+  /** Mettre à jour un message de créneau sans boutons (ancien message à réactions) */
+  | { type: 'refresh-slot'; ref: SlotRef }
+  /** Remettre les salons dans l'ordre chronologique */
+  | { type: 'reorder-channels'; dateKeys: string[] }
+  /** Retirer du modèle un jour hors fenêtre */
+  | { type: 'remove-day'; dateKey: string };
+
+/**
+ * Jour de la fenêtre de planning et sa fermeture éventuelle.
+ */
+export interface ReconcileDay extends PlanningDay {
+  /** Fermeture du jour (null si la salle est ouverte) */
+  closure: Closure | null;
+}
+
+/**
+ * État d'un salon de la catégorie de planning.
+ */
+export interface ChannelSnapshot {
+  /** ID du salon */
+  id: string;
+  /** Nom du salon */
+  name: string;
+  /** Position du salon dans la guilde */
+  position: number;
+  /**
+   * Messages de créneaux trouvés dans le salon, avec la présence de leurs boutons
+   * (null si les messages n'ont pas été vérifiés)
+   */
+  messages: Map<string, boolean> | null;
+}
+
+/**
+ * Résultat d'une synchronisation du planning.
+ */
+export interface ReconcileReport {
+  /** true si les changements ont seulement été calculés (aperçu) */
+  dryRun: boolean;
+  /** Changements nécessaires, dans l'ordre d'application */
+  actions: ReconcileAction[];
+  /** Changements dont l'application a échoué */
+  failed: ReconcileAction[];
+}
+
+/**
+ * Calcule les changements nécessaires pour aligner le planning Discord sur l'état attendu.
+ *
+ * Différences détectées:
+ * - Jours passés à archiver avant la suppression de leur salon
+ * - Inscriptions restantes sur un jour de fermeture
+ * - Salons hors fenêtre et salons en double (le salon enregistré dans le modèle est conservé)
+ * - Salons manquants, ou inconnus du modèle
+ * - Créneaux des horaires absents du modèle
+ * - Messages de créneaux jamais publiés (arrêt du bot pendant la création d'un salon)
+ *   ou supprimés, et messages sans boutons, si les messages ont été vérifiés
+ * - Salons hors de l'ordre chronologique
+ * - Jours à venir du modèle hors fenêtre
+ *
+ * @param {ReconcileDay[]} days - Jours de la fenêtre de planning, dans l'ordre chronologique
+ * @param {ChannelSnapshot[]} channels - Salons de la catégorie de planning
+ * @param {PlanningStore} store - Modèle de données du planning
+ * @param {PlanningSchedule} schedule - Horaires du planning
+ * @param {ClosedDayMode} closedDayMode - Traitement des jours de fermeture
+ * @returns {ReconcileAction[]} Changements nécessaires, dans l'ordre d'application
+ */
+export function planReconciliation(
+  days: ReconcileDay[],
+  channels: ChannelSnapshot[],
+  store: PlanningStore,
+  schedule: PlanningSchedule,
+  closedDayMode: ClosedDayMode
+): ReconcileAction[] {
+  const actions: ReconcileAction[] = [];
+  const firstDay = days[0]?.dateKey ?? '';
+
+  // Les jours passés sont archivés avant toute suppression de salon
+  const pastDays = store.getDays().filter(([dateKey]) => dateKey < firstDay);
+  for (const [dateKey, record] of pastDays) {
+    if (Object.keys(record.slots).length > 0) {
+      actions.push({ type: 'archive-day', dateKey });
+    }
+  }
+
+  for (const day of days) {
+    const record = store.getDay(day.dateKey);
+    if (day.closure && record && Object.keys(record.slots).length > 0) {
+      actions.push({ type: 'release-closed-day', dateKey: day.dateKey, closure: day.closure });
+    }
+  }
+
+  const wantedDays = days
+    .filter(day => !day.closure || closedDayMode === 'channel')
+    .map(day => (day.closure ? { ...day, channelName: day.channelName + CLOSED_CHANNEL_SUFFIX } : day));
+  const daysByName = new Map(wantedDays.map(day => [day.channelName, day]));
+
+  // Un seul salon par jour : celui du modèle, sinon le premier dans l'ordre des salons
+  const kept = new Map<string, ChannelSnapshot>();
+  for (const channel of [...channels].sort((a, b) => a.position - b.position)) {
+    const day = daysByName.get(channel.name);
+    if (!day) {
+      actions.push({ type: 'delete-channel', channelId: channel.id, name: channel.name, duplicate: false });
+      continue;
+    }
+
+    const current = kept.get(day.dateKey);
+    if (!current) {
+      kept.set(day.dateKey, channel);
+      continue;
+    }
+
+    const duplicate = store.getDay(day.dateKey)?.channelId === channel.id ? current : channel;
+    actions.push({ type: 'delete-channel', channelId: duplicate.id, name: duplicate.name, duplicate: true });
+    kept.set(day.dateKey, duplicate === current ? channel : current);
+  }
+
+  const created: string[] = [];
+  for (const day of wantedDays) {
+    const channel = kept.get(day.dateKey);
+    const record = store.getDay(day.dateKey);
+
+    if (!channel) {
+      actions.push({ type: 'create-channel', day, closure: day.closure });
+      created.push(day.dateKey);
+      if (!day.closure) {
+        for (const slot of schedule.getSlots(day.dateKey)) {
+          actions.push({ type: 'post-slot', ref: { dateKey: day.dateKey, slot } });
+        }
+      }
+      continue;
+    }
+
+    if (record?.channelId !== channel.id) {
+      actions.push(
+        day.closure
+          ? { type: 'adopt-closed-channel', channelId: channel.id, day }
+          : { type: 'import-channel', channelId: channel.id, day }
+      );
+      continue;
+    }
+
+    if (day.closure) {
+      continue;
+    }
+
+    const missing = schedule.getSlots(day.dateKey).filter(slot => !(slot in record.slots));
+    if (missing.length > 0) {
+      actions.push({ type: 'add-slots', dateKey: day.dateKey, slots: missing });
+    }
+
+    for (const slot of [...Object.keys(record.slots), ...missing]) {
+      const messageId = record.slots[slot]?.messageId ?? null;
+      const hasButtons = messageId ? channel.messages?.get(messageId) : undefined;
+      const ref = { dateKey: day.dateKey, slot };
+
+      if (!messageId || (channel.messages && hasButtons === undefined)) {
+        actions.push({ type: 'post-slot', ref });
+      } else if (hasButtons === false) {
+        actions.push({ type: 'refresh-slot', ref });
+      }
+    }
+  }
+
+  // Les salons créés sont ajoutés en bas de la catégorie
+  const order = [
+    ...[...kept.entries()].sort(([, a], [, b]) => a.position - b.position).map(([dateKey]) => dateKey),
+    ...created
+  ];
+  if (order.some((dateKey, index) => index > 0 && dateKey < order[index - 1])) {
+    actions.push({ type: 'reorder-channels', dateKeys: [...order].sort() });
+  }
+
+  const wantedKeys = new Set(wantedDays.map(day => day.dateKey));
+  for (const [dateKey, record] of store.getDays()) {
+    const archived = dateKey < firstDay && Object.keys(record.slots).length > 0;
+    if (!wantedKeys.has(dateKey) && !archived) {
+      actions.push({ type: 'remove-day', dateKey });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Décrit un changement de synchronisation en une ligne.
+ *
+ * @param {ReconcileAction} action - Changement à décrire
+ * @returns {string} Description du changement
+ */
+export function describeReconcileAction(action: ReconcileAction): string {
+  switch (action.type) {
+    case 'archive-day':
+      return `Archiver les inscriptions du ${formatDayLabel(action.dateKey)}`;
+    case 'release-closed-day':
+      return `Annuler les inscriptions du ${formatDayLabel(action.dateKey)} (salle fermée)`;
+    case 'delete-channel':
+      return `Supprimer le salon #${action.name} (${action.duplicate ? 'doublon' : 'hors planning'})`;
+    case 'create-channel':
+      return `Créer le salon #${action.day.channelName}`;
+    case 'import-channel':
+      return `Importer le salon #${action.day.channelName}`;
+    case 'adopt-closed-channel':
+      return `Enregistrer le salon #${action.day.channelName}`;
+    case 'add-slots':
+      return `Ajouter au ${formatDayLabel(action.dateKey)} les créneaux ${action.slots.join(', ')}`;
+    case 'post-slot':
+      return `Publier le créneau ${action.ref.slot} du ${formatDayLabel(action.ref.dateKey)}`;
+    case 'refresh-slot':
+      return `Ajouter les boutons au créneau ${action.ref.slot} du ${formatDayLabel(action.ref.dateKey)}`;
+    case 'reorder-channels':
+      return 'Remettre les salons dans l\'ordre chronologique';
+    case 'remove-day':
+      return `Retirer le ${formatDayLabel(action.dateKey)} du modèle de planning`;
+  }
+}
+
+/**
+ * Résume une synchronisation pour la réponse de `/gym setup`.
+ *
+ * @param {ReconcileReport} report - Résultat de la synchronisation
+ * @param {number} maxLines - Nombre maximal de changements détaillés
+ * @returns {string} Résumé de la synchronisation
+ */
+export function formatReconcileReport(report: ReconcileReport, maxLines = 15): string {
+  const { actions, failed, dryRun } = report;
+  if (actions.length === 0) {
+    return 'Planning déjà à jour, aucun changement nécessaire.';
+  }
+
+  const header = dryRun
+    ? `Aperçu : ${actions.length} changement(s) à appliquer, rien n'a été modifié.`
+    : `Synchronisation terminée : ${actions.length - failed.length} changement(s) appliqué(s)` +
+      `${failed.length > 0 ? `, ${failed.length} échec(s)` : ''}.`;
+
+  const lines = actions.map(action =>
+    `• ${describeReconcileAction(action)}${failed.includes(action) ? ' — échec' : ''}`
+  );
+  const shown = lines.slice(0, maxLines);
+  if (lines.length > shown.length) {
+    shown.push(`… et ${lines.length - shown.length} autre(s)`);
+  }
+
+  return [header, ...shown].join('\n');
+}
+
+/**
+ * Résume une synchronisation interrompue par une erreur pour la réponse de `/gym setup`.
+ *
+ * @param {ReconcileAction[]} applied - Changements appliqués avant l'erreur
+ * @param {number} maxLines - Nombre maximal de changements détaillés
+ * @returns {string} Message d'échec avec les changements déjà appliqués
+ */
+export function formatReconcileFailure(applied: ReconcileAction[], maxLines = 15): string {
+  if (applied.length === 0) {
+    return 'La synchronisation a échoué (voir les journaux du bot). Aucun changement n\'a été appliqué.';
+  }
+
+  const lines = applied.map(action => `• ${describeReconcileAction(action)}`);
+  const shown = lines.slice(0, maxLines);
+  if (lines.length > shown.length) {
+    shown.push(`… et ${lines.length - shown.length} autre(s)`);
+  }
+
+  return [
+    `La synchronisation a échoué (voir les journaux du bot). ${applied.length} changement(s) déjà appliqué(s) :`,
+    ...shown
+  ].join('\n');
+}
@@ -0,0 +1,325 @@
+import { readFile } from 'node:fs/promises';
+
+import { getWeekday, isDayKey } from '../../utils/calendar';
+
+/**
+ * Noms des jours de la semaine acceptés dans le fichier d'horaires,
+ * indexés comme `getWeekday()` (0 = dimanche).
+ */
+export const WEEKDAYS = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'] as const;
+
+/**
+ * Jour de la semaine du fichier d'horaires.
+ */
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * Créneaux d'une période : liste par défaut et listes par jour de la semaine.
+ */
+export interface SlotRules {
+  /** Créneaux par défaut (ex: ["08:00 - 10:00", "10:00 - 12:00"]) */
+  default?: string[];
+  /** Créneaux spécifiques à certains jours de la semaine */
+  weekdays?: Partial<Record<Weekday, string[]>>;
+  /** Capacités propres à certains créneaux (ex: { "18:00 - 20:00": 4 }) */
+  capacities?: Record<string, number>;
+}
+
+/**
+ * Période de dates dont les horaires remplacent les horaires habituels
+ * (horaires d'été, soirées de Ramadan, etc.).
+ */
+export interface ScheduleOverride extends SlotRules {
+  /** Nom de la période (utilisé dans les logs et les erreurs) */
+  name: string;
+  /** Premier jour de la période (AAAA-MM-JJ, inclus) */
+  from: string;
+  /** Dernier jour de la période (AAAA-MM-JJ, inclus) */
+  to: string;
+}
+
+/**
+ * Contenu du fichier d'horaires du planning.
+ */
+export interface ScheduleDefinition extends SlotRules {
+  /** Créneaux par défaut, obligatoires dans le fichier principal */
+  default: string[];
+  /** Périodes particulières, la dernière période correspondante l'emporte */
+  overrides?: ScheduleOverride[];
+}
+
+/**
+ * Horaires du planning : créneaux par jour de la semaine et périodes particulières.
+ *
+ * Ordre de résolution des créneaux d'une date:
+ * 1. Dernière période du fichier contenant la date (jour de la semaine, puis liste par défaut)
+ * 2. Créneaux du jour de la semaine
+ * 3. Créneaux par défaut
+ *
+ * La capacité d'un créneau suit le même ordre (périodes puis fichier principal),
+ * avec la capacité par défaut en dernier recours.
+ *
+ * @example
+ * ```typescript
+ * const schedule = await PlanningSchedule.load('planning-schedule.json', config.planning.timeSlots);
+ * const slots = schedule.getSlots('2025-07-14');
+ * const capacity = schedule.getCapacity('2025-07-14', slots[0]);
+ * ```
+ */
+export class PlanningSchedule {
+  /**
+   * Crée une nouvelle instance des horaires.
+   * Utiliser `PlanningSchedule.load` pour valider un fichier d'horaires.
+   *
+   * @param {ScheduleDefinition} definition - Horaires validés
+   * @param {number | null} defaultCapacity - Capacité par défaut d'un créneau (null si illimitée)
+   */
+  constructor(
+    private readonly definition: ScheduleDefinition,
+    private readonly defaultCapacity: number | null = null
+  ) {}
+
+  /**
+   * Charge et valide le fichier d'horaires.
+   * Sans fichier, les créneaux par défaut s'appliquent à tous les jours.
+   *
+   * @param {string | null} filePath - Chemin du fichier JSON d'horaires
+   * @param {string[]} fallbackSlots - Créneaux utilisés sans fichier d'horaires
+   * @param {number | null} defaultCapacity - Capacité par défaut d'un créneau (null si illimitée)
+   * @returns {Promise<PlanningSchedule>} Horaires du planning
+   * @throws {Error} Si le fichier est illisible ou invalide
+   */
+  static async load(
+    filePath: string | null,
+    fallbackSlots: string[],
+    defaultCapacity: number | null = null
+  ): Promise<PlanningSchedule> {
+    if (!filePath) {
+      return new PlanningSchedule({ default: fallbackSlots }, defaultCapacity);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Impossible de lire le fichier d'horaires ${filePath}: ${(error as Error).message}`);
+    }
+
+    return new PlanningSchedule(validateDefinition(raw, filePath), defaultCapacity);
+  }
+
+  /**
+   * Récupère les créneaux applicables à une date.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {string[]} Créneaux du jour, dans l'ordre du planning
+   */
+  getSlots(dateKey: string): string[] {
+    const weekday = WEEKDAYS[getWeekday(dateKey)];
+
+    const overrides = this.definition.overrides ?? [];
+    for (let i = overrides.length - 1; i >= 0; i--) {
+      const override = overrides[i];
+      if (dateKey < override.from || dateKey > override.to) {
+        continue;
+      }
+
+      const slots = override.weekdays?.[weekday] ?? override.default;
+      if (slots) {
+        return [...slots];
+      }
+    }
+
+    return [...(this.definition.weekdays?.[weekday] ?? this.definition.default)];
+  }
+
+  /**
+   * Récupère la capacité d'un créneau à une date.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {string} slot - Libellé du créneau
+   * @returns {number | null} Nombre de places ou null si illimité
+   */
+  getCapacity(dateKey: string, slot: string): number | null {
+    const overrides = this.definition.overrides ?? [];
+    for (let i = overrides.length - 1; i >= 0; i--) {
+      const override = overrides[i];
+      const capacity = override.capacities?.[slot];
+      if (capacity !== undefined && dateKey >= override.from && dateKey <= override.to) {
+        return capacity;
+      }
+    }
+
+    return this.definition.capacities?.[slot] ?? this.defaultCapacity;
+  }
+}
+
+/**
+ * Valide le contenu du fichier d'horaires.
+ *
+ * @param {unknown} raw - Contenu JSON du fichier
+ * @param {string} filePath - Chemin du fichier (pour les messages d'erreur)
+ * @returns {ScheduleDefinition} Horaires validés
+ * @throws {Error} Si le contenu est invalide
+ */
+function validateDefinition(raw: unknown, filePath: string): ScheduleDefinition {
+  const fail = (message: string): never => {
+    throw new Error(`Fichier d'horaires ${filePath} invalide: ${message}`);
+  };
+
+  if (!isObject(raw)) {
+    return fail('un objet JSON est attendu.');
+  }
+
+  const base = validateSlotRules(raw, 'racine', fail);
+  if (!base.default) {
+    return fail('la liste "default" est obligatoire.');
+  }
+
+  const rawOverrides = raw.overrides ?? [];
+  if (!Array.isArray(rawOverrides)) {
+    return fail('"overrides" doit être une liste.');
+  }
+
+  const overrides = rawOverrides.map((entry: unknown, index): ScheduleOverride => {
+    if (!isObject(entry)) {
+      return fail(`la période n°${index + 1} doit être un objet.`);
+    }
+
+    const name = typeof entry.name === 'string' && entry.name ? entry.name : `période n°${index + 1}`;
+    const { from, to } = entry;
+    if (typeof from !== 'string' || !isDayKey(from) || typeof to !== 'string' || !isDayKey(to)) {
+      return fail(`"${name}": "from" et "to" doivent être des dates AAAA-MM-JJ.`);
+    }
+    if (from > to) {
+      return fail(`"${name}": "from" doit précéder "to".`);
+    }
+
+    const rules = validateSlotRules(entry, `"${name}"`, fail);
+    if (!rules.default && !rules.weekdays && !rules.capacities) {
+      return fail(`"${name}": "default", "weekdays" ou "capacities" est obligatoire.`);
+    }
+
+    return { name, from, to, ...rules };
+  });
+
+  return { default: base.default, weekdays: base.weekdays, capacities: base.capacities, overrides };
+}
+
+/**
+ * Valide les listes de créneaux d'une période.
+ *
+ * @param {Record<string, unknown>} raw - Période à valider
+ * @param {string} scope - Nom de la période (pour les messages d'erreur)
+ * @param {(message: string) => never} fail - Fonction levant l'erreur de validation
+ * @returns {SlotRules} Créneaux validés
+ */
+function validateSlotRules(
+  raw: Record<string, unknown>,
+  scope: string,
+  fail: (message: string) => never
+): SlotRules {
+  const rules: SlotRules = {};
+
+  if (raw.default !== undefined) {
+    rules.default = validateSlotList(raw.default, `${scope} > default`, fail);
+  }
+
+  if (raw.weekdays !== undefined) {
+    if (!isObject(raw.weekdays)) {
+      return fail(`${scope} > weekdays doit être un objet.`);
+    }
+
+    rules.weekdays = {};
+    for (const [day, slots] of Object.entries(raw.weekdays)) {
+      if (!isWeekday(day)) {
+        return fail(`${scope} > weekdays: jour "${day}" inconnu (attendu: ${WEEKDAYS.join(', ')}).`);
+      }
+      rules.weekdays[day] = validateSlotList(slots, `${scope} > weekdays > ${day}`, fail);
+    }
+  }
+
+  if (raw.capacities !== undefined) {
+    if (!isObject(raw.capacities)) {
+      return fail(`${scope} > capacities doit être un objet.`);
+    }
+
+    for (const [slot, capacity] of Object.entries(raw.capacities)) {
+      if (!isValidSlot(slot)) {
+        return fail(`${scope} > capacities: créneau "${slot}" invalide (format attendu: "HH:MM - HH:MM").`);
+      }
+      if (typeof capacity !== 'number' || !Number.isInteger(capacity) || capacity < 1) {
+        return fail(`${scope} > capacities > ${slot}: un nombre entier de places supérieur à 0 est attendu.`);
+      }
+    }
+    rules.capacities = raw.capacities as Record<string, number>;
+  }
+
+  return rules;
+}
+
+/**
+ * Valide une liste de créneaux au format "HH:MM - HH:MM".
+ * Une liste vide est autorisée (aucun créneau ce jour-là).
+ *
+ * @param {unknown} raw - Liste à valider
+ * @param {string} scope - Emplacement de la liste (pour les messages d'erreur)
+ * @param {(message: string) => never} fail - Fonction levant l'erreur de validation
+ * @returns {string[]} Créneaux validés
+ */
+function validateSlotList(raw: unknown, scope: string, fail: (message: string) => never): string[] {
+  if (!Array.isArray(raw)) {
+    return fail(`${scope} doit être une liste de créneaux.`);
+  }
+
+  const seen = new Set<string>();
+  for (const slot of raw) {
+    if (typeof slot !== 'string' || !isValidSlot(slot)) {
+      return fail(`${scope}: créneau "${String(slot)}" invalide (format attendu: "HH:MM - HH:MM").`);
+    }
+    if (seen.has(slot)) {
+      return fail(`${scope}: créneau "${slot}" en double.`);
+    }
+    seen.add(slot);
+  }
+
+  return raw as string[];
+}
+
+/**
+ * Vérifie qu'un créneau est au format "HH:MM - HH:MM" et que son début précède sa fin.
+ * Une fin à "00:00" désigne minuit.
+ *
+ * @param {string} slot - Créneau à vérifier
+ * @returns {boolean} true si le créneau est valide
+ */
+function isValidSlot(slot: string): boolean {
+  const match = /^([01]\d|2[0-3]):([0-5]\d) - ([01]\d|2[0-3]):([0-5]\d)$/.exec(slot);
+  if (!match) {
+    return false;
+  }
+
+  const start = Number(match[1]) * 60 + Number(match[2]);
+  const end = Number(match[3]) * 60 + Number(match[4]) || 24 * 60;
+  return start < end;
+}
+
+/**
+ * Vérifie qu'une valeur est un objet JSON (hors tableau et null).
+ *
+ * @param {unknown} value - Valeur à vérifier
+ * @returns {boolean} true si la valeur est un objet
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Vérifie qu'une chaîne est un jour de la semaine du fichier d'horaires.
+ *
+ * @param {string} value - Valeur à vérifier
+ * @returns {boolean} true si la valeur est un jour connu
+ */
+function isWeekday(value: string): value is Weekday {
+  return (WEEKDAYS as readonly string[]).includes(value);
+}
@@ -0,0 +1,332 @@
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+
+/**
+ * Créneau d'une journée de planning.
+ */
+export interface SlotRecord {
+  /** ID du message Discord du créneau (null si le message n'existe plus) */
+  messageId: string | null;
+  /** IDs Discord des membres inscrits, par ordre d'inscription */
+  members: string[];
+  /** IDs Discord des membres en liste d'attente, par ordre d'arrivée */
+  waitlist: string[];
+}
+
+/**
+ * Journée de planning.
+ */
+export interface DayRecord {
+  /** Label du jour (ex: "lundi 15 janvier") */
+  label: string;
+  /** ID du salon Discord du jour (null si le salon n'existe plus) */
+  channelId: string | null;
+  /** Créneaux de la journée, indexés par libellé (ex: "18:00 - 20:00"), dans l'ordre du planning */
+  slots: Record<string, SlotRecord>;
+}
+
+/**
+ * Document du planning sauvegardé.
+ */
+export interface PlanningData {
+  /** Journées indexées par clé de jour (AAAA-MM-JJ) */
+  days: Record<string, DayRecord>;
+}
+
+/**
+ * Référence à un créneau précis.
+ */
+export interface SlotRef {
+  /** Clé du jour (AAAA-MM-JJ) */
+  dateKey: string;
+  /** Libellé du créneau */
+  slot: string;
+}
+
+/**
+ * Fonction appelée à chaque modification du planning.
+ */
+export type PlanningListener = () => void;
+
+/**
+ * Modèle de données du planning (jour → créneau → membres inscrits).
+ *
+ * Responsabilités:
+ * - Conserver les inscriptions indépendamment des messages Discord
+ * - Fournir une API typée aux autres fonctionnalités (rappels, statistiques, etc.)
+ * - Sauvegarder chaque modification
+ *
+ * @example
+ * ```typescript
+ * const planningStore = new PlanningStore(store);
+ * await planningStore.load();
+ * const members = planningStore.getParticipants('2025-01-15', '18:00 - 20:00');
+ * ```
+ */
+export class PlanningStore {
+  /** Données du planning */
+  private data: PlanningData = { days: {} };
+  /** Abonnés aux modifications */
+  private readonly listeners: PlanningListener[] = [];
+
+  /**
+   * Crée une nouvelle instance du modèle de planning.
+   *
+   * @param {JsonStore<PlanningData>} store - Stockage local du planning
+   */
+  constructor(private readonly store: JsonStore<PlanningData>) {}
+
+  /**
+   * Charge le planning sauvegardé.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le planning est chargé
+   */
+  async load(): Promise<void> {
+    const saved = await this.store.read();
+    this.data = saved ?? { days: {} };
+
+    // Les plannings sauvegardés avant l'ajout des listes d'attente n'en ont pas
+    for (const day of Object.values(this.data.days)) {
+      for (const slot of Object.values(day.slots)) {
+        slot.waitlist ??= [];
+      }
+    }
+  }
+
+  /**
+   * Abonne une fonction aux modifications du planning.
+   *
+   * @param {PlanningListener} listener - Fonction appelée après chaque modification
+   */
+  onChange(listener: PlanningListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Récupère une journée de planning.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {DayRecord | null} Journée ou null si elle n'existe pas
+   */
+  getDay(dateKey: string): DayRecord | null {
+    return this.data.days[dateKey] ?? null;
+  }
+
+  /**
+   * Récupère toutes les journées, dans l'ordre chronologique.
+   *
+   * @returns {Array<[string, DayRecord]>} Paires [clé du jour, journée]
+   */
+  getDays(): Array<[string, DayRecord]> {
+    return Object.entries(this.data.days).sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  /**
+   * Récupère les membres inscrits sur un créneau.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {string} slot - Libellé du créneau
+   * @returns {string[]} IDs Discord des membres inscrits
+   */
+  getParticipants(dateKey: string, slot: string): string[] {
+    return [...(this.data.days[dateKey]?.slots[slot]?.members ?? [])];
+  }
+
+  /**
+   * Récupère la liste d'attente d'un créneau.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {string} slot - Libellé du créneau
+   * @returns {string[]} IDs Discord des membres en attente, par ordre d'arrivée
+   */
+  getWaitlist(dateKey: string, slot: string): string[] {
+    return [...(this.data.days[dateKey]?.slots[slot]?.waitlist ?? [])];
+  }
+
+  /**
+   * Récupère toutes les inscriptions d'un membre, dans l'ordre chronologique.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @returns {SlotRef[]} Créneaux sur lesquels le membre est inscrit
+   */
+  getBookingsForMember(userId: string): SlotRef[] {
+    const bookings: SlotRef[] = [];
+    for (const [dateKey, day] of this.getDays()) {
+      for (const [slot, record] of Object.entries(day.slots)) {
+        if (record.members.includes(userId)) {
+          bookings.push({ dateKey, slot });
+        }
+      }
+    }
+    return bookings;
+  }
+
+  /**
+   * Retrouve le créneau correspondant à un message Discord.
+   *
+   * @param {string} messageId - ID du message
+   * @returns {SlotRef | null} Créneau ou null si le message n'est pas un créneau
+   */
+  findSlotByMessage(messageId: string): SlotRef | null {
+    for (const [dateKey, day] of Object.entries(this.data.days)) {
+      for (const [slot, record] of Object.entries(day.slots)) {
+        if (record.messageId === messageId) {
+          return { dateKey, slot };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Crée ou remplace une journée.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @param {DayRecord} day - Journée
+   */
+  setDay(dateKey: string, day: DayRecord): void {
+    this.data.days[dateKey] = day;
+    this.save();
+  }
+
+  /**
+   * Supprime une journée.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   */
+  removeDay(dateKey: string): void {
+    if (!(dateKey in this.data.days)) {
+      return;
+    }
+
+    delete this.data.days[dateKey];
+    this.save();
+  }
+
+  /**
+   * Associe un message Discord à un créneau.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string | null} messageId - ID du message (null si le message n'existe plus)
+   */
+  setSlotMessage(ref: SlotRef, messageId: string | null): void {
+    const record = this.data.days[ref.dateKey]?.slots[ref.slot];
+    if (!record) {
+      return;
+    }
+
+    record.messageId = messageId;
+    this.save();
+  }
+
+  /**
+   * Inscrit un membre sur un créneau.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string} userId - ID Discord du membre
+   * @returns {boolean} false si le créneau n'existe pas ou si le membre était déjà inscrit
+   */
+  addMember(ref: SlotRef, userId: string): boolean {
+    const record = this.data.days[ref.dateKey]?.slots[ref.slot];
+    if (!record || record.members.includes(userId)) {
+      return false;
+    }
+
+    record.members.push(userId);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Désinscrit un membre d'un créneau.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string} userId - ID Discord du membre
+   * @returns {boolean} false si le membre n'était pas inscrit
+   */
+  removeMember(ref: SlotRef, userId: string): boolean {
+    const record = this.data.days[ref.dateKey]?.slots[ref.slot];
+    const index = record?.members.indexOf(userId) ?? -1;
+    if (!record || index === -1) {
+      return false;
+    }
+
+    record.members.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Ajoute un membre à la liste d'attente d'un créneau.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string} userId - ID Discord du membre
+   * @returns {boolean} false si le créneau n'existe pas ou si le membre est déjà inscrit ou en attente
+   */
+  addToWaitlist(ref: SlotRef, userId: string): boolean {
+    const record = this.data.days[ref.dateKey]?.slots[ref.slot];
+    if (!record || record.members.includes(userId) || record.waitlist.includes(userId)) {
+      return false;
+    }
+
+    record.waitlist.push(userId);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Retire un membre de la liste d'attente d'un créneau.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @param {string} userId - ID Discord du membre
+   * @returns {boolean} false si le membre n'était pas en attente
+   */
+  removeFromWaitlist(ref: SlotRef, userId: string): boolean {
+    const record = this.data.days[ref.dateKey]?.slots[ref.slot];
+    const index = record?.waitlist.indexOf(userId) ?? -1;
+    if (!record || index === -1) {
+      return false;
+    }
+
+    record.waitlist.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Inscrit le premier membre de la liste d'attente d'un créneau.
+   *
+   * @param {SlotRef} ref - Créneau concerné
+   * @returns {string | null} ID Discord du membre inscrit ou null si la liste d'attente est vide
+   */
+  promoteFromWaitlist(ref: SlotRef): string | null {
+    const record = this.data.days[ref.dateKey]?.slots[ref.slot];
+    const userId = record?.waitlist.shift();
+    if (!record || !userId) {
+      return null;
+    }
+
+    record.members.push(userId);
+    this.save();
+    return userId;
+  }
+
+  /**
+   * Sauvegarde le planning et informe les abonnés.
+   *
+   * @private
+   */
+  private save(): void {
+    this.store.write(this.data).catch(error => {
+      logger.error('Impossible de sauvegarder le planning.', error);
+    });
+
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.error('Erreur dans un abonné aux modifications du planning.', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,341 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  Client
+} from 'discord.js';
+import cron from 'node-cron';
+
+import { config } from '../../config/env';
+import { addDays, getWeekday } from '../../utils/calendar';
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+import { getTodayKey } from './planningCalendar';
+import { Weekday, WEEKDAYS } from './planningSchedule';
+import { PlanningStore } from './planningStore';
+
+/**
+ * Identifiants des boutons du résumé hebdomadaire.
+ */
+export const enum RecurringButton {
+  /** Bouton pour ne plus recevoir le résumé hebdomadaire */
+  SummaryOptOut = 'recurringSummaryOptOut'
+}
+
+/**
+ * Inscription récurrente d'un membre (ex: tous les mardis, 18:00 - 20:00).
+ */
+export interface RecurringBooking {
+  /** ID Discord du membre */
+  userId: string;
+  /** Jour de la semaine */
+  weekday: Weekday;
+  /** Libellé du créneau */
+  slot: string;
+}
+
+/**
+ * Données sauvegardées des inscriptions récurrentes.
+ */
+export interface RecurringData {
+  /** Inscriptions récurrentes, par ordre de création */
+  bookings: RecurringBooking[];
+  /** Jours (AAAA-MM-JJ) dont le salon a déjà reçu les inscriptions récurrentes */
+  appliedDays: string[];
+  /** IDs Discord des membres ne souhaitant plus recevoir le résumé hebdomadaire */
+  summaryOptOuts: string[];
+}
+
+/**
+ * Service des inscriptions récurrentes.
+ *
+ * Responsabilités:
+ * - Enregistrer les inscriptions récurrentes de chaque membre
+ * - Fournir, une seule fois par jour, les inscriptions à appliquer à la création du salon du jour
+ *   (une désinscription n'est pas annulée par la recréation d'un salon)
+ * - Envoyer chaque semaine en MP le résumé des inscriptions récurrentes à venir,
+ *   avec un bouton pour ne plus le recevoir
+ *
+ * @example
+ * ```typescript
+ * const recurringService = new RecurringBookingService(client, planningStore, store, '0 18 * * 0');
+ * await recurringService.load();
+ * recurringService.add(user.id, 'mardi', '18:00 - 20:00');
+ * ```
+ */
+export class RecurringBookingService {
+  /** Données des inscriptions récurrentes */
+  private data: RecurringData = { bookings: [], appliedDays: [], summaryOptOuts: [] };
+  /** Tâche cron du résumé hebdomadaire */
+  private task: ReturnType<typeof cron.schedule> | null = null;
+
+  /**
+   * Crée une nouvelle instance du service des inscriptions récurrentes.
+   *
+   * @param {Client} client - Client Discord
+   * @param {PlanningStore} planningStore - Modèle de données du planning
+   * @param {JsonStore<RecurringData>} store - Stockage local des inscriptions récurrentes
+   * @param {string} summaryCron - Expression cron du résumé hebdomadaire
+   */
+  constructor(
+    private readonly client: Client,
+    private readonly planningStore: PlanningStore,
+    private readonly store: JsonStore<RecurringData>,
+    private readonly summaryCron: string
+  ) {}
+
+  /**
+   * Charge les inscriptions récurrentes sauvegardées.
+   * Appelée par le gestionnaire de planning avant sa première synchronisation.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand les inscriptions sont chargées
+   */
+  async load(): Promise<void> {
+    const saved = await this.store.read();
+    this.data = {
+      bookings: saved?.bookings ?? [],
+      appliedDays: saved?.appliedDays ?? [],
+      summaryOptOuts: saved?.summaryOptOuts ?? []
+    };
+  }
+
+  /**
+   * Programme le résumé hebdomadaire.
+   */
+  initialize(): void {
+    if (this.task) {
+      this.task.stop();
+    }
+
+    this.task = cron.schedule(
+      this.summaryCron,
+      async () => {
+        try {
+          await this.sendSummaries();
+        } catch (error) {
+          logger.error('Erreur lors de l\'envoi des résumés d\'inscriptions récurrentes.', error);
+        }
+      },
+      { timezone: config.timezone }
+    );
+
+    logger.info(`Résumé des inscriptions récurrentes programmé: ${this.summaryCron}`);
+  }
+
+  /**
+   * Ajoute une inscription récurrente.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {Weekday} weekday - Jour de la semaine
+   * @param {string} slot - Libellé du créneau
+   * @returns {boolean} false si l'inscription récurrente existait déjà
+   */
+  add(userId: string, weekday: Weekday, slot: string): boolean {
+    if (this.findIndex(userId, weekday, slot) !== -1) {
+      return false;
+    }
+
+    this.data.bookings.push({ userId, weekday, slot });
+    this.save();
+    return true;
+  }
+
+  /**
+   * Supprime une inscription récurrente.
+   * Les inscriptions déjà faites dans les salons existants sont conservées.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {Weekday} weekday - Jour de la semaine
+   * @param {string} slot - Libellé du créneau
+   * @returns {boolean} false si l'inscription récurrente n'existait pas
+   */
+  remove(userId: string, weekday: Weekday, slot: string): boolean {
+    const index = this.findIndex(userId, weekday, slot);
+    if (index === -1) {
+      return false;
+    }
+
+    this.data.bookings.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Récupère les inscriptions récurrentes d'un membre, du lundi au dimanche.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @returns {RecurringBooking[]} Inscriptions récurrentes du membre
+   */
+  getMemberBookings(userId: string): RecurringBooking[] {
+    const order = (weekday: Weekday): number => (WEEKDAYS.indexOf(weekday) + 6) % 7;
+    return this.data.bookings
+      .filter(booking => booking.userId === userId)
+      .sort((a, b) => order(a.weekday) - order(b.weekday) || a.slot.localeCompare(b.slot));
+  }
+
+  /**
+   * Récupère les inscriptions récurrentes à appliquer au salon d'un jour et marque le jour comme traité.
+   * Retourne une liste vide si le jour a déjà été traité.
+   *
+   * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+   * @returns {RecurringBooking[]} Inscriptions récurrentes du jour de la semaine, par ordre de création
+   */
+  claimDay(dateKey: string): RecurringBooking[] {
+    if (this.data.appliedDays.includes(dateKey)) {
+      return [];
+    }
+
+    // Les jours passés ne seront plus créés
+    const today = getTodayKey(config.timezone);
+    this.data.appliedDays = [...this.data.appliedDays.filter(day => day >= today), dateKey];
+    this.save();
+
+    const weekday = WEEKDAYS[getWeekday(dateKey)];
+    return this.data.bookings.filter(booking => booking.weekday === weekday);
+  }
+
+  /**
+   * Indique si un membre reçoit le résumé hebdomadaire.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @returns {boolean} true si le résumé est activé
+   */
+  isSummaryEnabled(userId: string): boolean {
+    return !this.data.summaryOptOuts.includes(userId);
+  }
+
+  /**
+   * Active ou désactive le résumé hebdomadaire d'un membre.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {boolean} enabled - true pour recevoir le résumé
+   */
+  setSummaryEnabled(userId: string, enabled: boolean): void {
+    const optOuts = this.data.summaryOptOuts.filter(id => id !== userId);
+    if (!enabled) {
+      optOuts.push(userId);
+    }
+
+    this.data.summaryOptOuts = optOuts;
+    this.save();
+  }
+
+  /**
+   * Gère le bouton "Ne plus recevoir ce résumé" du résumé hebdomadaire.
+   *
+   * @param {ButtonInteraction} interaction - L'interaction de bouton
+   * @returns {Promise<void>} Promise qui se résout quand la réponse est envoyée
+   */
+  async handleOptOut(interaction: ButtonInteraction): Promise<void> {
+    this.setSummaryEnabled(interaction.user.id, false);
+    logger.info(`${interaction.user.tag} ne reçoit plus le résumé des inscriptions récurrentes.`);
+
+    await interaction.reply({
+      content: 'Vous ne recevrez plus ce résumé. Pour le réactiver : `/planning recurring summary actif:True`.',
+      ephemeral: true
+    });
+  }
+
+  /**
+   * Envoie le résumé hebdomadaire à chaque membre ayant des inscriptions récurrentes.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand les résumés sont envoyés
+   * @private
+   */
+  private async sendSummaries(): Promise<void> {
+    const userIds = new Set(this.data.bookings.map(booking => booking.userId));
+    let sent = 0;
+
+    for (const userId of userIds) {
+      if (!this.isSummaryEnabled(userId)) {
+        continue;
+      }
+
+      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(RecurringButton.SummaryOptOut)
+          .setLabel('Ne plus recevoir ce résumé')
+          .setStyle(ButtonStyle.Secondary)
+      );
+
+      try {
+        await this.client.users.send(userId, { content: this.buildSummary(userId), components: [row] });
+        sent++;
+      } catch (error) {
+        logger.warn(`Impossible d'envoyer le résumé des inscriptions récurrentes à ${userId}`, error);
+      }
+    }
+
+    logger.info(`Résumé des inscriptions récurrentes envoyé à ${sent} membre(s).`);
+  }
+
+  /**
+   * Construit le résumé d'un membre : ses inscriptions récurrentes et leur état
+   * sur les 7 prochains jours du planning.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @returns {string} Contenu du résumé
+   * @private
+   */
+  private buildSummary(userId: string): string {
+    const bookings = this.getMemberBookings(userId);
+    const today = getTodayKey(config.timezone);
+    const lastDay = addDays(today, 6);
+
+    const upcoming: string[] = [];
+    for (const [dateKey, day] of this.planningStore.getDays()) {
+      if (dateKey < today || dateKey > lastDay) {
+        continue;
+      }
+
+      const weekday = WEEKDAYS[getWeekday(dateKey)];
+      for (const booking of bookings.filter(item => item.weekday === weekday)) {
+        const record = day.slots[booking.slot];
+        const state = !record
+          ? 'créneau indisponible'
+          : record.members.includes(userId)
+            ? 'inscrit'
+            : record.waitlist.includes(userId)
+              ? `liste d'attente, position ${record.waitlist.indexOf(userId) + 1}`
+              : 'non inscrit';
+        upcoming.push(`• ${day.label} — ${booking.slot} : ${state}`);
+      }
+    }
+
+    return [
+      '📅 Vos inscriptions récurrentes :',
+      ...bookings.map(booking => `• tous les ${booking.weekday}s — ${booking.slot}`),
+      '',
+      upcoming.length > 0 ? `Cette semaine :\n${upcoming.join('\n')}` : 'Aucun salon de planning ouvert pour ces jours cette semaine.',
+      '',
+      'Annuler une séance : `/planning cancel` — modifier : `/planning recurring add` / `remove`.'
+    ].join('\n');
+  }
+
+  /**
+   * Recherche une inscription récurrente.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {Weekday} weekday - Jour de la semaine
+   * @param {string} slot - Libellé du créneau
+   * @returns {number} Index de l'inscription, -1 si elle n'existe pas
+   * @private
+   */
+  private findIndex(userId: string, weekday: Weekday, slot: string): number {
+    return this.data.bookings.findIndex(
+      booking => booking.userId === userId && booking.weekday === weekday && booking.slot === slot
+    );
+  }
+
+  /**
+   * Sauvegarde les inscriptions récurrentes.
+   *
+   * @private
+   */
+  private save(): void {
+    this.store.write(this.data).catch(error => {
+      logger.error('Impossible de sauvegarder les inscriptions récurrentes.', error);
+    });
+  }
+}
@@ -0,0 +1,393 @@
+import { EmbedBuilder } from 'discord.js';
+
+import { addDays, getWeekday } from '../../utils/calendar';
+import { AttendanceArchive } from '../planning/attendanceArchive';
+import { getSlotBounds, getTodayKey } from '../planning/planningCalendar';
+import { PlanningStore } from '../planning/planningStore';
+import { PresenceTracker } from '../status/presenceTracker';
+import { VisitHistory } from '../status/visitHistory';
+
+/**
+ * Nombre de mois affichés dans les graphiques mensuels.
+ */
+const MONTHS_SHOWN = 6;
+
+/**
+ * Nombre de membres affichés dans le classement.
+ */
+const LEADERBOARD_SIZE = 10;
+
+/**
+ * Nombre de créneaux et de séries affichés dans les rubriques "top".
+ */
+const TOP_SIZE = 5;
+
+/**
+ * Abréviations des jours de la semaine (0 = dimanche).
+ */
+const WEEKDAY_LABELS = ['dim', 'lun', 'mar', 'mer', 'jeu', 'ven', 'sam'];
+
+/**
+ * Ordre d'affichage des jours de la semaine (lundi en premier).
+ */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Médailles des trois premiers du classement.
+ */
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+/**
+ * Période couverte par le classement.
+ */
+export type StatsPeriod = 'month' | 'all';
+
+/**
+ * Séance terminée d'un membre inscrit sur un créneau.
+ */
+export interface Session {
+  /** ID Discord du membre */
+  userId: string;
+  /** Clé du jour (AAAA-MM-JJ) */
+  dateKey: string;
+  /** Libellé du créneau */
+  slot: string;
+  /**
+   * true si le membre n'a pas signalé son arrivée pendant le créneau,
+   * null si aucune donnée de présence ne couvre le créneau
+   */
+  noShow: boolean | null;
+}
+
+/**
+ * Séries de semaines consécutives avec au moins une séance.
+ */
+interface Streaks {
+  /** Série en cours (la semaine courante n'interrompt pas la série tant qu'elle n'est pas finie) */
+  current: number;
+  /** Plus longue série */
+  best: number;
+}
+
+/**
+ * Statistiques de fréquentation calculées à partir des inscriptions au planning.
+ *
+ * Sources:
+ * - Journées archivées avant la suppression de leur salon
+ * - Créneaux terminés des journées encore présentes dans le planning
+ * - Historique des passages ("J'arrive" / "Je pars") pour détecter les absences
+ *
+ * Seuls les membres inscrits comptent : la liste d'attente n'est pas une séance.
+ *
+ * @example
+ * ```typescript
+ * const stats = new AttendanceStats(archive, planningStore, visits, presence, 'Europe/Paris');
+ * await interaction.reply({ embeds: [stats.buildClubEmbed()] });
+ * ```
+ */
+export class AttendanceStats {
+  /**
+   * Crée une nouvelle instance des statistiques de fréquentation.
+   *
+   * @param {AttendanceArchive} archive - Archives de fréquentation du planning
+   * @param {PlanningStore} planningStore - Modèle de données du planning
+   * @param {VisitHistory} visits - Historique des passages terminés
+   * @param {PresenceTracker} presence - Membres actuellement présents
+   * @param {string} timeZone - Timezone du planning (format IANA)
+   */
+  constructor(
+    private readonly archive: AttendanceArchive,
+    private readonly planningStore: PlanningStore,
+    private readonly visits: VisitHistory,
+    private readonly presence: PresenceTracker,
+    private readonly timeZone: string
+  ) {}
+
+  /**
+   * Récupère toutes les séances terminées, dans l'ordre chronologique.
+   *
+   * @param {Date} now - Instant de référence (défaut: maintenant)
+   * @returns {Session[]} Séances terminées
+   */
+  getSessions(now: Date = new Date()): Session[] {
+    const today = getTodayKey(this.timeZone, now);
+    const slots: Array<{ dateKey: string; slot: string; members: string[] }> = [];
+
+    for (const [dateKey, day] of this.archive.getDays()) {
+      for (const slot of day.slots) {
+        slots.push({ dateKey, slot: slot.slot, members: slot.members });
+      }
+    }
+
+    for (const [dateKey, day] of this.planningStore.getDays()) {
+      if (dateKey > today || this.archive.getDay(dateKey)) {
+        continue;
+      }
+      for (const [slot, record] of Object.entries(day.slots)) {
+        if (getSlotBounds(dateKey, slot, this.timeZone).end <= now) {
+          slots.push({ dateKey, slot, members: record.members });
+        }
+      }
+    }
+
+    const visits = [
+      ...this.visits.getVisits(),
+      ...this.presence.present.map(checkIn => ({ userId: checkIn.userId, start: checkIn.since, end: now.toISOString() }))
+    ].map(visit => ({ userId: visit.userId, start: new Date(visit.start), end: new Date(visit.end) }));
+    const firstVisit = Math.min(...visits.map(visit => visit.start.getTime()));
+
+    return slots
+      .sort((a, b) => a.dateKey.localeCompare(b.dateKey) || a.slot.localeCompare(b.slot))
+      .flatMap(({ dateKey, slot, members }) => {
+        const bounds = getSlotBounds(dateKey, slot, this.timeZone);
+        // Pas de verdict pour les créneaux antérieurs au premier passage enregistré
+        const checked = bounds.start.getTime() >= firstVisit;
+
+        return members.map(userId => ({
+          userId,
+          dateKey,
+          slot,
+          noShow: checked
+            ? !visits.some(visit => visit.userId === userId && visit.start < bounds.end && visit.end > bounds.start)
+            : null
+        }));
+      });
+  }
+
+  /**
+   * Construit l'embed des statistiques d'un membre (`/stats me`).
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {string} displayName - Nom affiché du membre
+   * @param {Date} now - Instant de référence (défaut: maintenant)
+   * @returns {EmbedBuilder} Embed des statistiques
+   */
+  buildMemberEmbed(userId: string, displayName: string, now: Date = new Date()): EmbedBuilder {
+    const sessions = this.getSessions(now).filter(session => session.userId === userId);
+    const embed = new EmbedBuilder().setTitle(`Statistiques de ${displayName}`).setColor(0xd80c44);
+
+    if (sessions.length === 0) {
+      return embed.setDescription('Aucune séance enregistrée pour le moment.');
+    }
+
+    const currentMonth = getTodayKey(this.timeZone, now).slice(0, 7);
+    const thisMonth = sessions.filter(session => session.dateKey.startsWith(currentMonth)).length;
+    const streaks = this.computeStreaks(sessions, now);
+
+    return embed
+      .setDescription(`**${sessions.length}** séance(s) au total, dont **${thisMonth}** ce mois-ci.`)
+      .addFields(
+        { name: 'Séances par mois', value: renderBars(this.countByMonth(sessions, now)) },
+        { name: 'Jours préférés', value: renderBars(countByWeekday(sessions)) },
+        { name: 'Créneaux préférés', value: renderBars(countBySlot(sessions).slice(0, TOP_SIZE)) },
+        {
+          name: 'Régularité',
+          value: `Série en cours : **${streaks.current}** semaine(s)\nMeilleure série : **${streaks.best}** semaine(s)`,
+          inline: true
+        },
+        { name: 'Absences', value: formatNoShows(sessions), inline: true }
+      );
+  }
+
+  /**
+   * Construit l'embed des statistiques de la salle (`/stats club`).
+   *
+   * @param {Date} now - Instant de référence (défaut: maintenant)
+   * @returns {EmbedBuilder} Embed des statistiques
+   */
+  buildClubEmbed(now: Date = new Date()): EmbedBuilder {
+    const sessions = this.getSessions(now);
+    const embed = new EmbedBuilder().setTitle('Fréquentation de la salle').setColor(0xd80c44);
+
+    if (sessions.length === 0) {
+      return embed.setDescription('Aucune séance enregistrée pour le moment.');
+    }
+
+    const members = new Set(sessions.map(session => session.userId)).size;
+
+    return embed
+      .setDescription(`**${sessions.length}** séance(s) par **${members}** membre(s).`)
+      .addFields(
+        { name: 'Séances par mois', value: renderBars(this.countByMonth(sessions, now)) },
+        { name: 'Jours les plus fréquentés', value: renderBars(countByWeekday(sessions)) },
+        { name: 'Créneaux les plus fréquentés', value: renderBars(countBySlot(sessions).slice(0, TOP_SIZE)) },
+        { name: 'Absences', value: formatNoShows(sessions) }
+      );
+  }
+
+  /**
+   * Construit l'embed du classement des membres (`/stats top`).
+   *
+   * @param {StatsPeriod} period - Période du classement
+   * @param {Date} now - Instant de référence (défaut: maintenant)
+   * @returns {EmbedBuilder} Embed du classement
+   */
+  buildLeaderboardEmbed(period: StatsPeriod, now: Date = new Date()): EmbedBuilder {
+    const sessions = this.getSessions(now);
+    const currentMonth = getTodayKey(this.timeZone, now).slice(0, 7);
+    const counted = period === 'month'
+      ? sessions.filter(session => session.dateKey.startsWith(currentMonth))
+      : sessions;
+
+    const ranking = countBy(counted, session => session.userId)
+      .slice(0, LEADERBOARD_SIZE)
+      .map(([userId, count], index) => `${MEDALS[index] ?? `${index + 1}.`} <@${userId}> — ${count} séance(s)`);
+
+    const byUser = new Map<string, Session[]>();
+    for (const session of sessions) {
+      byUser.set(session.userId, [...(byUser.get(session.userId) ?? []), session]);
+    }
+    const streaks = [...byUser.entries()]
+      .map(([userId, userSessions]) => [userId, this.computeStreaks(userSessions, now).current] as const)
+      .filter(([, current]) => current > 0)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, TOP_SIZE)
+      .map(([userId, current]) => `<@${userId}> — ${current} semaine(s)`);
+
+    return new EmbedBuilder()
+      .setTitle(period === 'month' ? 'Classement du mois' : 'Classement général')
+      .setDescription(ranking.length > 0 ? ranking.join('\n') : 'Aucune séance sur la période.')
+      .addFields({ name: 'Séries en cours', value: streaks.length > 0 ? streaks.join('\n') : 'Aucune série en cours' })
+      .setColor(0xd80c44);
+  }
+
+  /**
+   * Compte les séances des derniers mois, mois sans séance compris.
+   *
+   * @param {Session[]} sessions - Séances à compter
+   * @param {Date} now - Instant de référence
+   * @returns {Array<[string, number]>} Nombre de séances par mois, du plus ancien au plus récent
+   * @private
+   */
+  private countByMonth(sessions: Session[], now: Date): Array<[string, number]> {
+    const [year, month] = getTodayKey(this.timeZone, now).split('-').map(Number);
+
+    return Array.from({ length: MONTHS_SHOWN }, (_, index) => {
+      const date = new Date(Date.UTC(year, month - MONTHS_SHOWN + index, 1));
+      const monthKey = date.toISOString().slice(0, 7);
+      const label = date.toLocaleDateString('fr-FR', { timeZone: 'UTC', month: 'short', year: '2-digit' });
+      return [label, sessions.filter(session => session.dateKey.startsWith(monthKey)).length];
+    });
+  }
+
+  /**
+   * Calcule les séries de semaines consécutives (du lundi au dimanche) avec au moins une séance.
+   *
+   * @param {Session[]} sessions - Séances d'un membre
+   * @param {Date} now - Instant de référence
+   * @returns {Streaks} Série en cours et meilleure série
+   * @private
+   */
+  private computeStreaks(sessions: Session[], now: Date): Streaks {
+    const weeks = new Set(sessions.map(session => getWeekStart(session.dateKey)));
+
+    let best = 0;
+    for (const week of weeks) {
+      if (weeks.has(addDays(week, -7))) {
+        continue;
+      }
+      let length = 1;
+      while (weeks.has(addDays(week, length * 7))) {
+        length++;
+      }
+      best = Math.max(best, length);
+    }
+
+    // La semaine en cours ne casse pas la série tant qu'elle n'est pas terminée
+    const thisWeek = getWeekStart(getTodayKey(this.timeZone, now));
+    let week = weeks.has(thisWeek) ? thisWeek : addDays(thisWeek, -7);
+    let current = 0;
+    while (weeks.has(week)) {
+      current++;
+      week = addDays(week, -7);
+    }
+
+    return { current, best };
+  }
+}
+
+/**
+ * Calcule le lundi de la semaine d'un jour.
+ *
+ * @param {string} dateKey - Clé du jour (AAAA-MM-JJ)
+ * @returns {string} Clé du lundi de la semaine
+ */
+function getWeekStart(dateKey: string): string {
+  return addDays(dateKey, -((getWeekday(dateKey) + 6) % 7));
+}
+
+/**
+ * Compte les séances par clé, de la plus fréquente à la moins fréquente.
+ *
+ * @param {Session[]} sessions - Séances à compter
+ * @param {(session: Session) => string} key - Clé de regroupement
+ * @returns {Array<[string, number]>} Nombre de séances par clé
+ */
+function countBy(sessions: Session[], key: (session: Session) => string): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const session of sessions) {
+    counts.set(key(session), (counts.get(key(session)) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort(([, a], [, b]) => b - a);
+}
+
+/**
+ * Compte les séances par jour de la semaine, du lundi au dimanche.
+ *
+ * @param {Session[]} sessions - Séances à compter
+ * @returns {Array<[string, number]>} Nombre de séances par jour de la semaine
+ */
+function countByWeekday(sessions: Session[]): Array<[string, number]> {
+  return WEEKDAY_ORDER.map(weekday => [
+    WEEKDAY_LABELS[weekday],
+    sessions.filter(session => getWeekday(session.dateKey) === weekday).length
+  ]);
+}
+
+/**
+ * Compte les séances par créneau, du plus fréquenté au moins fréquenté.
+ *
+ * @param {Session[]} sessions - Séances à compter
+ * @returns {Array<[string, number]>} Nombre de séances par créneau
+ */
+function countBySlot(sessions: Session[]): Array<[string, number]> {
+  return countBy(sessions, session => session.slot);
+}
+
+/**
+ * Résume les absences des séances couvertes par les données de présence.
+ *
+ * @param {Session[]} sessions - Séances à résumer
+ * @returns {string} Résumé des absences
+ */
+function formatNoShows(sessions: Session[]): string {
+  const checked = sessions.filter(session => session.noShow !== null);
+  if (checked.length === 0) {
+    return 'Pas encore de données de présence';
+  }
+
+  const missed = checked.filter(session => session.noShow).length;
+  return `**${missed}** absence(s) sur ${checked.length} séance(s) vérifiée(s) ` +
+    `(${Math.round((missed / checked.length) * 100)} %)`;
+}
+
+/**
+ * Affiche des valeurs sous forme de graphique en barres textuel.
+ *
+ * @param {Array<[string, number]>} entries - Libellés et valeurs, dans l'ordre d'affichage
+ * @param {number} width - Largeur maximale d'une barre, en caractères
+ * @returns {string} Graphique dans un bloc de code
+ */
+function renderBars(entries: Array<[string, number]>, width = 12): string {
+  if (entries.length === 0) {
+    return 'Aucune donnée';
+  }
+
+  const max = Math.max(...entries.map(([, value]) => value), 1);
+  const labelWidth = Math.max(...entries.map(([label]) => label.length));
+  const lines = entries.map(([label, value]) =>
+    `${label.padEnd(labelWidth)} ${'█'.repeat(Math.round((value / max) * width)).padEnd(width)} ${value}`
+  );
+
+  return `\`\`\`\n${lines.join('\n')}\n\`\`\``;
+}
@@ -0,0 +1,217 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  Client
+} from 'discord.js';
+import cron from 'node-cron';
+
+import { config } from '../../config/env';
+import { addDays, formatDayKey, zonedTime } from '../../utils/calendar';
+import { logger } from '../../utils/logger';
+import { GymStatusManager } from './gymStatusManager';
+
+/**
+ * Nom de l'acteur enregistré lors d'une fermeture automatique.
+ */
+export const AUTO_CLOSE_ACTOR = 'Fermeture automatique';
+
+/**
+ * Identifiants des boutons de la fermeture automatique.
+ */
+export const enum AutoCloseButton {
+  /** Bouton pour confirmer que la salle est encore ouverte */
+  Confirm = 'confirmStillOpen'
+}
+
+/**
+ * Service de fermeture automatique de la salle.
+ *
+ * Responsabilités:
+ * - Demander avant l'heure limite si la salle est encore ouverte (MP à la dernière
+ *   personne ayant ouvert, ou mention dans le salon de statut)
+ * - Fermer la salle à l'heure limite si personne n'a confirmé
+ *
+ * La confirmation est sauvegardée avec le statut de la salle, pour le jour de l'heure limite
+ * concernée : elle reste valable si le bot redémarre avant l'heure limite.
+ *
+ * @example
+ * ```typescript
+ * const autoCloseService = new AutoCloseService(client, statusManager);
+ * autoCloseService.initialize();
+ * ```
+ */
+export class AutoCloseService {
+  /** Tâches cron (demande de confirmation et fermeture) */
+  private tasks: Array<ReturnType<typeof cron.schedule>> = [];
+  /** Heure limite, en minutes depuis minuit (null si la fermeture automatique est désactivée) */
+  private deadlineMinutes: number | null = null;
+
+  /**
+   * Crée une nouvelle instance du service de fermeture automatique.
+   *
+   * @param {Client} client - Client Discord
+   * @param {GymStatusManager} statusManager - Gestionnaire du statut de la salle
+   */
+  constructor(
+    private readonly client: Client,
+    private readonly statusManager: GymStatusManager
+  ) {}
+
+  /**
+   * Programme la demande de confirmation et la fermeture automatique.
+   * Ne fait rien si aucune heure limite n'est configurée.
+   */
+  initialize(): void {
+    const { deadline, warningMinutes } = config.status.autoClose;
+    if (!deadline) {
+      logger.info('Fermeture automatique de la salle désactivée.');
+      return;
+    }
+
+    const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(deadline);
+    if (!match) {
+      logger.warn(`Heure de fermeture automatique invalide: ${deadline} (format attendu: HH:MM)`);
+      return;
+    }
+
+    for (const task of this.tasks) {
+      task.stop();
+    }
+
+    const deadlineMinutes = Number(match[1]) * 60 + Number(match[2]);
+    this.deadlineMinutes = deadlineMinutes;
+    const warningTime = (deadlineMinutes - warningMinutes + 24 * 60) % (24 * 60);
+
+    this.tasks = [
+      cron.schedule(
+        `${warningTime % 60} ${Math.floor(warningTime / 60)} * * *`,
+        async () => {
+          try {
+            await this.sendNudge();
+          } catch (error) {
+            logger.error('Erreur lors de la demande de confirmation d\'ouverture.', error);
+          }
+        },
+        { timezone: config.timezone }
+      ),
+      cron.schedule(
+        `${deadlineMinutes % 60} ${Math.floor(deadlineMinutes / 60)} * * *`,
+        async () => {
+          try {
+            await this.closeIfUnconfirmed();
+          } catch (error) {
+            logger.error('Erreur lors de la fermeture automatique de la salle.', error);
+          }
+        },
+        { timezone: config.timezone }
+      )
+    ];
+
+    logger.info(`Fermeture automatique programmée à ${deadline} (confirmation ${warningMinutes} min avant).`);
+  }
+
+  /**
+   * Traite la confirmation qu'une personne est encore présente.
+   * Annule la fermeture automatique de ce soir.
+   *
+   * @param {ButtonInteraction} interaction - Interaction du bouton de confirmation
+   * @returns {Promise<void>} Promise qui se résout quand la confirmation est traitée
+   */
+  async handleConfirm(interaction: ButtonInteraction): Promise<void> {
+    if (this.statusManager.currentStatus !== 'Ouverte') {
+      await interaction.reply({
+        content: 'La salle n\'est plus indiquée comme ouverte, rien à confirmer.',
+        ephemeral: true
+      });
+      return;
+    }
+
+    this.statusManager.confirmOpen(this.getNextDeadlineKey());
+    logger.info(`Ouverture confirmée par ${interaction.user.tag}, fermeture automatique annulée.`);
+
+    await interaction.reply({
+      content: 'Merci ! La salle reste ouverte. Pensez à la fermer en partant.',
+      ephemeral: true
+    });
+  }
+
+  /**
+   * Demande à la dernière personne ayant ouvert si la salle est encore ouverte.
+   * Envoie un MP, ou une mention dans le salon de statut si le MP échoue.
+   *
+   * @private
+   */
+  private async sendNudge(): Promise<void> {
+    if (this.statusManager.currentStatus !== 'Ouverte') {
+      return;
+    }
+
+    const content = `La salle est toujours indiquée **Ouverte**. Est-elle encore ouverte ?\n` +
+      `Sans confirmation, elle sera fermée automatiquement à ${config.status.autoClose.deadline}.`;
+    const components = [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(AutoCloseButton.Confirm)
+          .setLabel('Oui, encore ouverte')
+          .setStyle(ButtonStyle.Success)
+      )
+    ];
+
+    const actorId = this.statusManager.lastActorId;
+    if (actorId) {
+      try {
+        const user = await this.client.users.fetch(actorId);
+        await user.send({ content, components });
+        logger.info(`Demande de confirmation d'ouverture envoyée à ${user.tag}.`);
+        return;
+      } catch (error) {
+        logger.warn(`Impossible d'envoyer un MP à ${actorId}, mention dans le salon de statut.`, error);
+      }
+    }
+
+    const channel = this.statusManager.statusChannel;
+    if (!channel) {
+      logger.warn('Aucun salon de statut pour demander confirmation de l\'ouverture.');
+      return;
+    }
+
+    await channel.send({
+      content: actorId ? `<@${actorId}> ${content}` : content,
+      components
+    });
+  }
+
+  /**
+   * Ferme la salle si elle est encore ouverte et que personne n'a confirmé.
+   *
+   * @private
+   */
+  private async closeIfUnconfirmed(): Promise<void> {
+    // La tâche s'exécute à l'heure limite : le jour courant est celui de l'heure limite
+    const confirmed = this.statusManager.confirmedOpenFor === formatDayKey(new Date(), config.timezone);
+
+    if (this.statusManager.currentStatus !== 'Ouverte' || confirmed) {
+      return;
+    }
+
+    this.statusManager.updateStatus('Fermée', AUTO_CLOSE_ACTOR);
+    await this.statusManager.refreshStatusMessage();
+  }
+
+  /**
+   * Calcule le jour de la prochaine heure limite de fermeture automatique.
+   *
+   * @param {Date} now - Instant de référence (défaut: maintenant)
+   * @returns {string} Jour de la prochaine heure limite (AAAA-MM-JJ)
+   * @private
+   */
+  private getNextDeadlineKey(now: Date = new Date()): string {
+    const today = formatDayKey(now, config.timezone);
+    if (this.deadlineMinutes === null || zonedTime(today, this.deadlineMinutes, config.timezone) > now) {
+      return today;
+    }
+    return addDays(today, 1);
+  }
+}
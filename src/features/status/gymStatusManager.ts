@@ -3,13 +3,21 @@ import {
   ButtonBuilder,
   ButtonStyle,
   ChannelType,
+  Client,
   EmbedBuilder,
   Message,
-  TextChannel
+  ModalBuilder,
+  StringSelectMenuBuilder,
+  TextChannel,
+  TextInputBuilder,
+  TextInputStyle
 } from 'discord.js';
 
-import { GymStatus } from '../../config/env';
+import { config, GymStatus } from '../../config/env';
+import { JsonStore } from '../../utils/jsonStore';
 import { logger } from '../../utils/logger';
+import { CheckIn, PresenceTracker } from './presenceTracker';
+import { StatusHistory } from './statusHistory';
 
 /**
  * Identifiants des boutons interactifs pour la gestion du statut de la salle.
@@ -20,23 +28,130 @@ export const enum GymStatusButton {
   /** Bouton pour fermer la salle */
   Close = 'closeGym',
   /** Bouton pour demander l'ouverture du portail */
-  Gate = 'openGate'
+  Gate = 'openGate',
+  /** Bouton pour signaler son arrivée à la salle */
+  CheckIn = 'checkIn',
+  /** Bouton pour signaler son départ de la salle */
+  CheckOut = 'checkOut'
+}
+
+/**
+ * Identifiants des composants (menu et formulaire) pour les statuts particuliers.
+ */
+export const enum GymStatusComponent {
+  /** Menu de sélection d'un statut particulier */
+  Select = 'gymStatusSelect',
+  /** Préfixe du formulaire de motif (suivi de `:<statut>`) */
+  ReasonModal = 'gymStatusReason',
+  /** Champ du motif */
+  ReasonInput = 'reason',
+  /** Champ de la fin prévue */
+  ExpectedEndInput = 'expectedEnd'
+}
+
+/**
+ * Titre de l'embed de statut, utilisé pour retrouver les anciens messages.
+ */
+const STATUS_EMBED_TITLE = 'Statut de la salle de sport';
+
+/**
+ * Nombre de messages récents parcourus pour retrouver les anciens messages de statut.
+ */
+const STRAY_SCAN_LIMIT = 50;
+
+/**
+ * Statuts particuliers, qui nécessitent un motif.
+ */
+export const SPECIAL_STATUSES: GymStatus[] = [
+  'Maintenance',
+  'Réservée (événement)',
+  'Fermeture exceptionnelle'
+];
+
+/**
+ * Couleur de l'embed pour chaque statut.
+ */
+const STATUS_COLORS: Record<GymStatus, number> = {
+  Ouverte: 0x00ff00,
+  Fermée: 0xff0000,
+  Maintenance: 0xffa500,
+  'Réservée (événement)': 0x5865f2,
+  'Fermeture exceptionnelle': 0x992d22
+};
+
+/**
+ * Précisions accompagnant un statut particulier.
+ */
+export interface GymStatusDetails {
+  /** Motif du statut */
+  reason: string | null;
+  /** Fin prévue, en texte libre (ex: "18:00", "lundi 8h") */
+  expectedEnd: string | null;
+}
+
+/**
+ * Vue instantanée du statut de la salle, transmise aux abonnés.
+ */
+export interface GymStatusSnapshot {
+  /** Statut actuel */
+  status: GymStatus;
+  /** Motif et fin prévue d'un statut particulier */
+  details: GymStatusDetails;
+  /** Nom de la dernière personne ayant modifié le statut */
+  lastActor: string | null;
+  /** ID Discord de la dernière personne ayant modifié le statut */
+  lastActorId: string | null;
+  /** Date de la dernière modification du statut */
+  lastActionAt: Date | null;
+  /** Membres présents */
+  present: CheckIn[];
+}
+
+/**
+ * Fonction appelée à chaque changement du statut ou des présents.
+ */
+export type GymStatusListener = (snapshot: GymStatusSnapshot) => void;
+
+/**
+ * État du statut de la salle sauvegardé entre deux redémarrages.
+ */
+export interface PersistedGymStatus {
+  /** Statut de la salle */
+  status: GymStatus;
+  /** Nom de la dernière personne ayant modifié le statut */
+  lastActionBy: string | null;
+  /** ID Discord de la dernière personne ayant modifié le statut */
+  lastActionById: string | null;
+  /** Date de la dernière action (ISO 8601) */
+  lastActionAt: string | null;
+  /** Motif et fin prévue d'un statut particulier */
+  details?: GymStatusDetails;
+  /** Jour (AAAA-MM-JJ) de l'heure limite pour laquelle l'ouverture a été confirmée (fermeture automatique) */
+  autoCloseConfirmedFor?: string | null;
+  /** ID du salon contenant le message de statut */
+  channelId: string | null;
+  /** ID du message de statut */
+  messageId: string | null;
 }
 
 /**
  * Gestionnaire du statut de la salle de sport.
  * 
  * Responsabilités:
- * - Gérer l'état actuel de la salle (Ouverte/Fermée)
+ * - Gérer l'état actuel de la salle (Ouverte/Fermée ou statut particulier avec motif)
  * - Publier et mettre à jour le message de statut Discord
  * - Conserver l'historique de la dernière action
  * - Fournir une interface avec boutons interactifs
+ * - Sauvegarder l'état et le restaurer au redémarrage
+ * - Enregistrer chaque changement de statut dans l'historique
+ * - Afficher les membres présents (arrivées et départs)
  *
  * @example
  * ```typescript
- * const statusManager = new GymStatusManager(images, 'Fermée');
+ * const statusManager = new GymStatusManager(images, 'Fermée', store, history, presence);
+ * await statusManager.restore(client);
  * await statusManager.publishStatus(channel);
- * statusManager.updateStatus('Ouverte', 'John Doe');
+ * statusManager.updateStatus('Ouverte', 'John Doe', '123456789012345678');
  * await statusManager.refreshStatusMessage();
  * ```
  */
@@ -45,18 +160,40 @@ export class GymStatusManager {
   private status: GymStatus;
   /** Nom de la dernière personne ayant modifié le statut */
   private lastActionBy: string | null = null;
+  /** ID Discord de la dernière personne ayant modifié le statut */
+  private lastActionById: string | null = null;
+  /** Date de la dernière modification du statut */
+  private lastActionAt: Date | null = null;
+  /** Motif et fin prévue du statut actuel */
+  private details: GymStatusDetails = { reason: null, expectedEnd: null };
+  /** Jour de l'heure limite pour laquelle l'ouverture a été confirmée (fermeture automatique) */
+  private autoCloseConfirmedFor: string | null = null;
   /** Message Discord affichant le statut */
   private statusMessage: Message | null = null;
+  /** Statut affiché dans le message de statut actuel */
+  private displayedStatus: GymStatus | null = null;
+  /** Abonnés aux changements de statut */
+  private readonly listeners: GymStatusListener[] = [];
+  /** File des mises à jour du message de statut */
+  private updateQueue: Promise<void> = Promise.resolve();
+  /** Rafraîchissement en attente dans la file, partagé par les demandes rapprochées */
+  private pendingRefresh: Promise<void> | null = null;
 
   /**
    * Crée une nouvelle instance du gestionnaire de statut.
    *
    * @param {Record<GymStatus, string>} images - URLs des images pour chaque statut
-   * @param {GymStatus} defaultStatus - Statut par défaut au démarrage
+   * @param {GymStatus} defaultStatus - Statut par défaut si aucun état n'a été sauvegardé
+   * @param {JsonStore<PersistedGymStatus>} store - Stockage local de l'état
+   * @param {StatusHistory} history - Historique des changements de statut
+   * @param {PresenceTracker} presence - Suivi des membres présents
    */
   constructor(
     private readonly images: Record<GymStatus, string>,
-    defaultStatus: GymStatus
+    defaultStatus: GymStatus,
+    private readonly store: JsonStore<PersistedGymStatus>,
+    private readonly history: StatusHistory,
+    private readonly presence: PresenceTracker
   ) {
     this.status = defaultStatus;
   }
@@ -64,12 +201,21 @@ export class GymStatusManager {
   /**
    * Récupère le statut actuel de la salle.
    *
-   * @returns {GymStatus} Statut actuel ('Ouverte' ou 'Fermée')
+   * @returns {GymStatus} Statut actuel
    */
   get currentStatus(): GymStatus {
     return this.status;
   }
 
+  /**
+   * Récupère le motif et la fin prévue du statut actuel.
+   *
+   * @returns {GymStatusDetails} Précisions du statut (vides pour Ouverte/Fermée)
+   */
+  get currentDetails(): GymStatusDetails {
+    return { ...this.details };
+  }
+
   /**
    * Récupère le nom de la dernière personne ayant modifié le statut.
    *
@@ -79,6 +225,81 @@ export class GymStatusManager {
     return this.lastActionBy;
   }
 
+  /**
+   * Récupère l'ID Discord de la dernière personne ayant modifié le statut.
+   *
+   * @returns {string | null} ID de l'acteur ou null (action automatique ou aucune action)
+   */
+  get lastActorId(): string | null {
+    return this.lastActionById;
+  }
+
+  /**
+   * Récupère la date de la dernière modification du statut.
+   *
+   * @returns {Date | null} Date de la dernière action ou null si aucune action n'a été effectuée
+   */
+  get lastActionDate(): Date | null {
+    return this.lastActionAt;
+  }
+
+  /**
+   * Récupère le jour de l'heure limite de fermeture automatique pour laquelle
+   * l'ouverture a été confirmée.
+   *
+   * @returns {string | null} Jour (AAAA-MM-JJ) ou null si aucune confirmation
+   */
+  get confirmedOpenFor(): string | null {
+    return this.autoCloseConfirmedFor;
+  }
+
+  /**
+   * Enregistre la confirmation que la salle reste ouverte au-delà d'une heure limite
+   * de fermeture automatique. La confirmation est sauvegardée avec le statut et
+   * oubliée au prochain changement de statut.
+   *
+   * @param {string} dayKey - Jour de l'heure limite concernée (AAAA-MM-JJ)
+   */
+  confirmOpen(dayKey: string): void {
+    this.autoCloseConfirmedFor = dayKey;
+    void this.persist();
+  }
+
+  /**
+   * Récupère une vue instantanée du statut et des présents.
+   *
+   * @returns {GymStatusSnapshot} Statut actuel
+   */
+  get snapshot(): GymStatusSnapshot {
+    return {
+      status: this.status,
+      details: { ...this.details },
+      lastActor: this.lastActionBy,
+      lastActorId: this.lastActionById,
+      lastActionAt: this.lastActionAt,
+      present: this.presence.present
+    };
+  }
+
+  /**
+   * Abonne une fonction aux changements du statut ou des présents.
+   *
+   * @param {GymStatusListener} listener - Fonction appelée avec le nouveau statut
+   */
+  onChange(listener: GymStatusListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Récupère le salon contenant le message de statut.
+   *
+   * @returns {TextChannel | null} Salon du message de statut ou null si aucun message n'est publié
+   */
+  get statusChannel(): TextChannel | null {
+    const channel = this.statusMessage?.channel;
+    return channel && channel.type === ChannelType.GuildText ? channel as TextChannel : null;
+  }
+
   /**
    * Vérifie si un message de statut a été publié.
    *
@@ -88,45 +309,267 @@ export class GymStatusManager {
     return this.statusMessage !== null;
   }
 
+  /**
+   * Restaure l'état sauvegardé, l'historique, les présents et récupère le message de statut existant.
+   * À appeler une fois le client connecté (événement `ready`).
+   * Si le message a été supprimé entre-temps, l'état est conservé mais
+   * un nouveau `/gym status` sera nécessaire pour republier le message.
+   *
+   * @param {Client} client - Client Discord connecté
+   * @returns {Promise<void>} Promise qui se résout quand la restauration est terminée
+   */
+  async restore(client: Client): Promise<void> {
+    await this.history.load();
+    await this.presence.load();
+
+    const saved = await this.store.read();
+    if (!saved) {
+      return;
+    }
+
+    if (saved.status in this.images) {
+      this.status = saved.status;
+    }
+    this.lastActionBy = saved.lastActionBy;
+    this.lastActionById = saved.lastActionById ?? null;
+    this.lastActionAt = saved.lastActionAt ? new Date(saved.lastActionAt) : null;
+    this.details = saved.details ?? { reason: null, expectedEnd: null };
+    this.autoCloseConfirmedFor = saved.autoCloseConfirmedFor ?? null;
+
+    if (!saved.channelId || !saved.messageId) {
+      logger.info(`Statut de la salle restauré: ${this.status} (aucun message de statut).`);
+      return;
+    }
+
+    try {
+      const channel = await client.channels.fetch(saved.channelId);
+      if (!channel || channel.type !== ChannelType.GuildText) {
+        logger.warn(`Salon du message de statut introuvable: ${saved.channelId}`);
+        return;
+      }
+
+      this.statusMessage = await (channel as TextChannel).messages.fetch(saved.messageId);
+      this.displayedStatus = this.status;
+      logger.info(`Statut de la salle restauré: ${this.status} (message ${saved.messageId}).`);
+    } catch (error) {
+      logger.warn('Impossible de récupérer le message de statut sauvegardé.', error);
+    }
+  }
+
   /**
    * Publie le message de statut dans le salon Discord spécifié.
-   * Si un message existe déjà, il est supprimé avant la publication.
+   * Si un message existe déjà, il est supprimé avant la publication,
+   * ainsi que les anciens messages de statut restés dans le salon.
    *
    * @param {TextChannel} channel - Salon Discord où publier le statut
    * @returns {Promise<Message>} Message Discord créé
    * @throws {Error} Si la publication échoue (permissions insuffisantes, etc.)
    */
-  async publishStatus(channel: TextChannel): Promise<Message> {
-    if (this.statusMessage) {
-      try {
-        await this.statusMessage.delete();
-      } catch (error) {
-        logger.warn('Impossible de supprimer le message de statut précédent.', error);
+  publishStatus(channel: TextChannel): Promise<Message> {
+    return this.enqueue(async () => {
+      if (this.statusMessage) {
+        try {
+          await this.statusMessage.delete();
+        } catch (error) {
+          logger.warn('Impossible de supprimer le message de statut précédent.', error);
+        }
       }
+
+      const message = await channel.send({
+        embeds: [this.buildEmbed()],
+        components: this.buildComponents()
+      });
+
+      this.statusMessage = message;
+      this.displayedStatus = this.status;
+      await this.persist();
+      await this.removeStrayStatusMessages(channel, message);
+      return message;
+    });
+  }
+
+  /**
+   * Met à jour le message de statut selon le mode configuré (`STATUS_REFRESH_MODE`):
+   * - `edit`: modifie le message existant (pas de notification)
+   * - `repost`: republie le message à chaque changement de statut (notification)
+   * - `repost-on-open`: republie uniquement quand la salle passe à Ouverte
+   *
+   * Les mises à jour sont exécutées l'une après l'autre ; plusieurs demandes
+   * rapprochées sont regroupées en une seule. Ne fait rien si aucun message n'a été publié.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le message est mis à jour
+   */
+  refreshStatusMessage(): Promise<void> {
+    if (this.pendingRefresh) {
+      return this.pendingRefresh;
     }
 
-    const message = await channel.send({
-      embeds: [this.buildEmbed()],
-      components: [this.buildActionRow()]
+    const refresh = this.enqueue(async () => {
+      this.pendingRefresh = null;
+      await this.renderStatusMessage(this.shouldRepost());
     });
 
-    this.statusMessage = message;
-    return message;
+    this.pendingRefresh = refresh;
+    return refresh;
   }
 
   /**
-   * Met à jour le message de statut existant en le supprimant et en créant un nouveau.
-   * Cela génère une notification Discord pour les utilisateurs.
+   * Met à jour le message de statut existant sans le republier (pas de notification).
+   * Utilisé pour les changements mineurs comme les arrivées et départs.
    * Ne fait rien si aucun message n'a été publié.
    *
-   * @returns {Promise<void>} Promise qui se résout quand le message est mis à jour
+   * @returns {Promise<void>} Promise qui se résout quand le message est modifié
+   */
+  editStatusMessage(): Promise<void> {
+    // Une mise à jour en attente affichera de toute façon l'état le plus récent
+    if (this.pendingRefresh) {
+      return this.pendingRefresh;
+    }
+
+    return this.enqueue(() => this.renderStatusMessage(false));
+  }
+
+  /**
+   * Enregistre l'arrivée d'un membre à la salle.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {string} displayName - Nom affiché du membre
+   * @returns {boolean} false si la salle n'est pas ouverte ou si le membre était déjà présent
+   */
+  checkIn(userId: string, displayName: string): boolean {
+    if (this.status !== 'Ouverte' || !this.presence.checkIn(userId, displayName)) {
+      return false;
+    }
+
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Enregistre le départ d'un membre de la salle.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @returns {boolean} false si le membre n'était pas présent
+   */
+  checkOut(userId: string): boolean {
+    if (!this.presence.checkOut(userId)) {
+      return false;
+    }
+
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Prend en compte les départs automatiques (durée maximale dépassée)
+   * et met à jour le message de statut.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le message est modifié
    */
-  async refreshStatusMessage(): Promise<void> {
+  async handlePresenceExpired(): Promise<void> {
+    this.notify();
+    await this.editStatusMessage();
+  }
+
+  /**
+   * Met à jour le statut de la salle et enregistre l'auteur de l'action.
+   * Chaque changement effectif est ajouté à l'historique.
+   * Quand la salle n'est plus ouverte, tous les présents sont marqués comme partis.
+   * N'actualise pas automatiquement le message Discord.
+   *
+   * @param {GymStatus} newStatus - Nouveau statut
+   * @param {string} actor - Nom de la personne effectuant l'action
+   * @param {string | null} actorId - ID Discord de la personne (null pour une action automatique)
+   * @param {GymStatusDetails} details - Motif et fin prévue (statuts particuliers uniquement)
+   *
+   * @example
+   * ```typescript
+   * statusManager.updateStatus('Ouverte', 'John Doe', interaction.user.id);
+   * await statusManager.refreshStatusMessage();
+   * ```
+   */
+  updateStatus(
+    newStatus: GymStatus,
+    actor: string,
+    actorId: string | null = null,
+    details: GymStatusDetails = { reason: null, expectedEnd: null }
+  ): void {
+    const previousStatus = this.status;
+    this.status = newStatus;
+    this.details = SPECIAL_STATUSES.includes(newStatus)
+      ? details
+      : { reason: null, expectedEnd: null };
+    this.lastActionBy = actor;
+    this.lastActionById = actorId;
+    this.lastActionAt = new Date();
+    logger.info(`Statut de la salle mis à jour: ${newStatus} (par ${actor})`);
+
+    if (newStatus !== 'Ouverte') {
+      this.presence.checkOutAll();
+    }
+
+    if (previousStatus !== newStatus) {
+      this.autoCloseConfirmedFor = null;
+      this.history.record({
+        status: newStatus,
+        previousStatus,
+        actorId,
+        actorName: actor,
+        reason: this.details.reason,
+        timestamp: this.lastActionAt.toISOString()
+      });
+    }
+
+    void this.persist();
+    this.notify();
+  }
+
+  /**
+   * Ajoute une tâche à la file des mises à jour du message de statut.
+   * Garantit que deux mises à jour ne s'exécutent jamais en même temps.
+   *
+   * @param {() => Promise<T>} task - Tâche à exécuter
+   * @returns {Promise<T>} Résultat de la tâche
+   * @private
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.updateQueue.then(task);
+    this.updateQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Indique si le prochain rafraîchissement doit republier le message.
+   *
+   * @returns {boolean} true pour republier, false pour modifier le message existant
+   * @private
+   */
+  private shouldRepost(): boolean {
+    const statusChanged = this.displayedStatus !== this.status;
+
+    switch (config.status.refreshMode) {
+      case 'repost':
+        return statusChanged;
+      case 'repost-on-open':
+        return statusChanged && this.status === 'Ouverte';
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Affiche l'état courant dans le message de statut, en le republiant ou en le modifiant.
+   * Si le message à modifier a disparu, il est republié.
+   *
+   * @param {boolean} repost - true pour supprimer et republier le message
+   * @returns {Promise<void>} Promise qui se résout quand le message est à jour
+   * @private
+   */
+  private async renderStatusMessage(repost: boolean): Promise<void> {
     if (!this.statusMessage) {
       return;
     }
 
-    // Récupérer le canal depuis le message existant
     const channel = this.statusMessage.channel;
     if (channel.type !== ChannelType.GuildText) {
       logger.warn('Le canal du message de statut n\'est pas un salon texte.');
@@ -134,45 +577,138 @@ export class GymStatusManager {
     }
 
     const textChannel = channel as TextChannel;
-    const oldMessage = this.statusMessage;
+    const payload = {
+      embeds: [this.buildEmbed()],
+      components: this.buildComponents()
+    };
+
+    if (!repost) {
+      try {
+        this.statusMessage = await this.statusMessage.edit(payload);
+        this.displayedStatus = this.status;
+        return;
+      } catch (error) {
+        logger.warn('Impossible de modifier le message de statut, republication.', error);
+      }
+    }
 
     try {
-      // Supprimer l'ancien message
       try {
-        await oldMessage.delete();
+        await this.statusMessage.delete();
       } catch (error) {
         logger.warn('Impossible de supprimer le message de statut précédent.', error);
       }
 
-      // Créer un nouveau message (génère une notification)
-      const newMessage = await textChannel.send({
-        embeds: [this.buildEmbed()],
-        components: [this.buildActionRow()]
-      });
-
-      this.statusMessage = newMessage;
+      // Un nouveau message génère une notification
+      this.statusMessage = await textChannel.send(payload);
+      this.displayedStatus = this.status;
+      await this.persist();
+      await this.removeStrayStatusMessages(textChannel, this.statusMessage);
     } catch (error) {
       logger.error('Erreur lors de la mise à jour du message de statut.', error);
     }
   }
 
   /**
-   * Met à jour le statut de la salle et enregistre l'auteur de l'action.
-   * N'actualise pas automatiquement le message Discord.
+   * Supprime les anciens messages de statut publiés par le bot dans le salon
+   * (messages orphelins laissés par une suppression échouée ou un redémarrage).
    *
-   * @param {GymStatus} newStatus - Nouveau statut ('Ouverte' ou 'Fermée')
-   * @param {string} actor - Nom de la personne effectuant l'action
+   * @param {TextChannel} channel - Salon du message de statut
+   * @param {Message} current - Message de statut actuel, à conserver
+   * @returns {Promise<void>} Promise qui se résout quand le nettoyage est terminé
+   * @private
+   */
+  private async removeStrayStatusMessages(channel: TextChannel, current: Message): Promise<void> {
+    try {
+      const messages = await channel.messages.fetch({ limit: STRAY_SCAN_LIMIT });
+      const strays = messages.filter(message =>
+        message.id !== current.id &&
+        message.author.id === current.author.id &&
+        message.embeds[0]?.title === STATUS_EMBED_TITLE
+      );
+
+      for (const stray of strays.values()) {
+        await stray.delete();
+      }
+
+      if (strays.size > 0) {
+        logger.info(`${strays.size} ancien(s) message(s) de statut supprimé(s).`);
+      }
+    } catch (error) {
+      logger.warn('Impossible de nettoyer les anciens messages de statut.', error);
+    }
+  }
+
+  /**
+   * Informe les abonnés d'un changement du statut ou des présents.
+   * Une erreur d'un abonné n'interrompt pas les autres.
    *
-   * @example
-   * ```typescript
-   * statusManager.updateStatus('Ouverte', 'John Doe');
-   * await statusManager.refreshStatusMessage();
-   * ```
+   * @private
    */
-  updateStatus(newStatus: GymStatus, actor: string): void {
-    this.status = newStatus;
-    this.lastActionBy = actor;
-    logger.info(`Statut de la salle mis à jour: ${newStatus} (par ${actor})`);
+  private notify(): void {
+    const snapshot = this.snapshot;
+    for (const listener of this.listeners) {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        logger.error('Erreur dans un abonné aux changements de statut.', error);
+      }
+    }
+  }
+
+  /**
+   * Sauvegarde l'état courant dans le stockage local.
+   * Une erreur de sauvegarde est loggée sans interrompre la mise à jour du statut.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand l'état est sauvegardé
+   * @private
+   */
+  private async persist(): Promise<void> {
+    try {
+      await this.store.write({
+        status: this.status,
+        lastActionBy: this.lastActionBy,
+        lastActionById: this.lastActionById,
+        lastActionAt: this.lastActionAt?.toISOString() ?? null,
+        details: this.details,
+        autoCloseConfirmedFor: this.autoCloseConfirmedFor,
+        channelId: this.statusMessage?.channelId ?? null,
+        messageId: this.statusMessage?.id ?? null
+      });
+    } catch (error) {
+      logger.error('Impossible de sauvegarder le statut de la salle.', error);
+    }
+  }
+
+  /**
+   * Construit le formulaire demandant le motif d'un statut particulier.
+   *
+   * @param {GymStatus} status - Statut particulier choisi
+   * @returns {ModalBuilder} Formulaire Discord
+   */
+  buildReasonModal(status: GymStatus): ModalBuilder {
+    return new ModalBuilder()
+      .setCustomId(`${GymStatusComponent.ReasonModal}:${status}`)
+      .setTitle(`Passer la salle en « ${status} »`)
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId(GymStatusComponent.ReasonInput)
+            .setLabel('Motif')
+            .setStyle(TextInputStyle.Paragraph)
+            .setMaxLength(300)
+            .setRequired(true)
+        ),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId(GymStatusComponent.ExpectedEndInput)
+            .setLabel('Fin prévue (optionnel)')
+            .setPlaceholder('ex: 18:00, demain matin, lundi 8h')
+            .setStyle(TextInputStyle.Short)
+            .setMaxLength(50)
+            .setRequired(false)
+        )
+      );
   }
 
   /**
@@ -183,39 +719,100 @@ export class GymStatusManager {
    */
   private buildEmbed(): EmbedBuilder {
     const lastAction = this.lastActionBy ?? 'N/A';
+    const lastActionTime = this.lastActionAt
+      ? ` (<t:${Math.floor(this.lastActionAt.getTime() / 1000)}:R>)`
+      : '';
+
+    const lines = [`La salle de sport est actuellement **${this.status}**.`];
+    if (this.details.reason) {
+      lines.push(`Motif : ${this.details.reason}`);
+    }
+    if (this.details.expectedEnd) {
+      lines.push(`Fin prévue : ${this.details.expectedEnd}`);
+    }
+    if (this.status === 'Ouverte') {
+      const present = this.presence.present;
+      const names = present.length > 0
+        ? ` — ${present.map(checkIn => checkIn.displayName).join(', ')}`
+        : '';
+      lines.push(`\n👥 Présents : **${present.length}**${names}`);
+    }
 
     return new EmbedBuilder()
-      .setTitle('Statut de la salle de sport')
+      .setTitle(STATUS_EMBED_TITLE)
       .setDescription(
-        `La salle de sport est actuellement **${this.status}**.\n\nDernière action par : **${lastAction}**`
+        `${lines.join('\n')}\n\nDernière action par : **${lastAction}**${lastActionTime}`
       )
-      .setColor(this.status === 'Ouverte' ? 0x00ff00 : 0xff0000)
+      .setColor(STATUS_COLORS[this.status])
       .setImage(this.images[this.status]);
   }
 
   /**
-   * Construit la rangée de boutons interactifs pour la gestion du statut.
+   * Construit les rangées de composants interactifs pour la gestion du statut.
+   * Seules les transitions possibles depuis le statut actuel sont proposées.
    *
-   * @returns {ActionRowBuilder<ButtonBuilder>} Rangée de boutons Discord
+   * @returns {Array<ActionRowBuilder<ButtonBuilder> | ActionRowBuilder<StringSelectMenuBuilder>>} Rangées Discord
    * @private
    */
-  private buildActionRow(): ActionRowBuilder<ButtonBuilder> {
-    return new ActionRowBuilder<ButtonBuilder>().addComponents(
-      new ButtonBuilder()
-        .setCustomId(GymStatusButton.Open)
-        .setLabel('Ouvrir la salle')
-        .setStyle(ButtonStyle.Success)
-        .setDisabled(this.status === 'Ouverte'),
-      new ButtonBuilder()
-        .setCustomId(GymStatusButton.Close)
-        .setLabel('Fermer la salle')
-        .setStyle(ButtonStyle.Danger)
-        .setDisabled(this.status === 'Fermée'),
+  private buildComponents(): Array<ActionRowBuilder<ButtonBuilder> | ActionRowBuilder<StringSelectMenuBuilder>> {
+    const buttons: ButtonBuilder[] = [];
+
+    if (this.status !== 'Ouverte') {
+      buttons.push(
+        new ButtonBuilder()
+          .setCustomId(GymStatusButton.Open)
+          .setLabel(this.status === 'Fermée' ? 'Ouvrir la salle' : 'Rouvrir la salle')
+          .setStyle(ButtonStyle.Success)
+      );
+    }
+
+    if (this.status !== 'Fermée') {
+      buttons.push(
+        new ButtonBuilder()
+          .setCustomId(GymStatusButton.Close)
+          .setLabel('Fermer la salle')
+          .setStyle(ButtonStyle.Danger)
+      );
+    }
+
+    buttons.push(
       new ButtonBuilder()
         .setCustomId(GymStatusButton.Gate)
         .setLabel('Demander ouverture du portail')
         .setStyle(ButtonStyle.Primary)
     );
+
+    const specialStatuses = SPECIAL_STATUSES.filter(status => status !== this.status);
+    const rows: Array<ActionRowBuilder<ButtonBuilder> | ActionRowBuilder<StringSelectMenuBuilder>> = [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(buttons)
+    ];
+
+    if (this.status === 'Ouverte') {
+      rows.push(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          new ButtonBuilder()
+            .setCustomId(GymStatusButton.CheckIn)
+            .setLabel('J\'arrive')
+            .setEmoji('👋')
+            .setStyle(ButtonStyle.Secondary),
+          new ButtonBuilder()
+            .setCustomId(GymStatusButton.CheckOut)
+            .setLabel('Je pars')
+            .setEmoji('🚪')
+            .setStyle(ButtonStyle.Secondary)
+        )
+      );
+    }
+
+    rows.push(
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(GymStatusComponent.Select)
+          .setPlaceholder('Signaler un statut particulier…')
+          .addOptions(specialStatuses.map(status => ({ label: status, value: status })))
+      )
+    );
+
+    return rows;
   }
 }
-
@@ -0,0 +1,216 @@
+import cron from 'node-cron';
+
+import { config } from '../../config/env';
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+import { VisitHistory } from './visitHistory';
+
+/**
+ * Membre actuellement présent à la salle.
+ */
+export interface CheckIn {
+  /** ID Discord du membre */
+  userId: string;
+  /** Nom affiché du membre */
+  displayName: string;
+  /** Date d'arrivée (ISO 8601) */
+  since: string;
+}
+
+/**
+ * Suivi des membres présents à la salle (boutons "J'arrive" / "Je pars").
+ *
+ * Responsabilités:
+ * - Enregistrer les arrivées et départs
+ * - Archiver chaque passage terminé dans l'historique des passages
+ * - Vider la liste des présents à la fermeture
+ * - Retirer automatiquement les membres restés au-delà de la durée maximale
+ *
+ * @example
+ * ```typescript
+ * const presence = new PresenceTracker(store, visits, 180);
+ * await presence.load();
+ * presence.checkIn(user.id, 'John Doe');
+ * ```
+ */
+export class PresenceTracker {
+  /** Membres présents, indexés par ID Discord */
+  private checkIns = new Map<string, CheckIn>();
+  /** Tâche cron de vérification de la durée maximale */
+  private expiryTask: ReturnType<typeof cron.schedule> | null = null;
+
+  /**
+   * Crée une nouvelle instance du suivi de présence.
+   *
+   * @param {JsonStore<CheckIn[]>} store - Stockage local des présents
+   * @param {VisitHistory} visits - Historique des passages terminés
+   * @param {number} maxStayMinutes - Durée maximale de présence avant départ automatique (0 pour désactiver)
+   */
+  constructor(
+    private readonly store: JsonStore<CheckIn[]>,
+    private readonly visits: VisitHistory,
+    private readonly maxStayMinutes: number
+  ) {}
+
+  /**
+   * Récupère la liste des membres présents, par ordre d'arrivée.
+   *
+   * @returns {CheckIn[]} Membres présents
+   */
+  get present(): CheckIn[] {
+    return [...this.checkIns.values()];
+  }
+
+  /**
+   * Récupère le nombre de membres présents.
+   *
+   * @returns {number} Nombre de présents
+   */
+  get count(): number {
+    return this.checkIns.size;
+  }
+
+  /**
+   * Charge la liste des présents et l'historique des passages sauvegardés.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand la liste est chargée
+   */
+  async load(): Promise<void> {
+    await this.visits.load();
+    const saved = await this.store.read();
+    this.checkIns = new Map((saved ?? []).map(checkIn => [checkIn.userId, checkIn]));
+  }
+
+  /**
+   * Programme la vérification périodique de la durée maximale de présence.
+   *
+   * @param {() => Promise<void>} onExpired - Appelée quand des membres ont été retirés automatiquement
+   */
+  scheduleExpiry(onExpired: () => Promise<void>): void {
+    if (this.expiryTask) {
+      this.expiryTask.stop();
+      this.expiryTask = null;
+    }
+
+    if (this.maxStayMinutes <= 0) {
+      return;
+    }
+
+    this.expiryTask = cron.schedule(
+      '*/5 * * * *',
+      async () => {
+        try {
+          const expired = this.removeExpired();
+          if (expired.length > 0) {
+            logger.info(`Départ automatique de ${expired.map(checkIn => checkIn.displayName).join(', ')}.`);
+            await onExpired();
+          }
+        } catch (error) {
+          logger.error('Erreur lors du départ automatique des membres présents.', error);
+        }
+      },
+      { timezone: config.timezone }
+    );
+  }
+
+  /**
+   * Enregistre l'arrivée d'un membre.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @param {string} displayName - Nom affiché du membre
+   * @returns {boolean} false si le membre était déjà présent
+   */
+  checkIn(userId: string, displayName: string): boolean {
+    if (this.checkIns.has(userId)) {
+      return false;
+    }
+
+    this.checkIns.set(userId, { userId, displayName, since: new Date().toISOString() });
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Enregistre le départ d'un membre.
+   *
+   * @param {string} userId - ID Discord du membre
+   * @returns {boolean} false si le membre n'était pas présent
+   */
+  checkOut(userId: string): boolean {
+    const checkIn = this.checkIns.get(userId);
+    if (!checkIn) {
+      return false;
+    }
+
+    this.checkIns.delete(userId);
+    this.recordVisit(checkIn, new Date());
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Enregistre le départ de tous les membres présents.
+   *
+   * @returns {number} Nombre de membres retirés
+   */
+  checkOutAll(): number {
+    const count = this.checkIns.size;
+    if (count > 0) {
+      const now = new Date();
+      for (const checkIn of this.checkIns.values()) {
+        this.recordVisit(checkIn, now);
+      }
+      this.checkIns.clear();
+      this.persist();
+    }
+    return count;
+  }
+
+  /**
+   * Retire les membres présents depuis plus longtemps que la durée maximale.
+   *
+   * @param {Date} now - Date de référence
+   * @returns {CheckIn[]} Membres retirés
+   */
+  removeExpired(now: Date = new Date()): CheckIn[] {
+    if (this.maxStayMinutes <= 0) {
+      return [];
+    }
+
+    const limit = now.getTime() - this.maxStayMinutes * 60000;
+    const expired = this.present.filter(checkIn => new Date(checkIn.since).getTime() <= limit);
+
+    // Le départ automatique est daté de la fin de la durée maximale, pas de la vérification
+    for (const checkIn of expired) {
+      this.checkIns.delete(checkIn.userId);
+      this.recordVisit(checkIn, new Date(new Date(checkIn.since).getTime() + this.maxStayMinutes * 60000));
+    }
+    if (expired.length > 0) {
+      this.persist();
+    }
+
+    return expired;
+  }
+
+  /**
+   * Enregistre un passage terminé dans l'historique des passages.
+   *
+   * @param {CheckIn} checkIn - Arrivée du membre
+   * @param {Date} end - Date de départ
+   * @private
+   */
+  private recordVisit(checkIn: CheckIn, end: Date): void {
+    this.visits.record({ userId: checkIn.userId, start: checkIn.since, end: end.toISOString() });
+  }
+
+  /**
+   * Sauvegarde la liste des présents.
+   *
+   * @private
+   */
+  private persist(): void {
+    this.store.write(this.present).catch(error => {
+      logger.error('Impossible de sauvegarder la liste des présents.', error);
+    });
+  }
+}
@@ -0,0 +1,324 @@
+import { EmbedBuilder } from 'discord.js';
+
+import { GymStatus } from '../../config/env';
+import { addDays, formatDayKey, startOfDay } from '../../utils/calendar';
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+
+/**
+ * Nombre maximal de transitions conservées dans l'historique.
+ */
+const MAX_TRANSITIONS = 10000;
+
+/**
+ * Nombre maximal de lignes affichées par période dans le rapport.
+ */
+const MAX_REPORT_PERIODS = 10;
+
+/**
+ * Longueur maximale de la description d'un embed Discord.
+ */
+const MAX_DESCRIPTION_LENGTH = 4096;
+
+/**
+ * Changement de statut de la salle enregistré dans l'historique.
+ */
+export interface StatusTransition {
+  /** Nouveau statut */
+  status: GymStatus;
+  /** Statut avant le changement */
+  previousStatus: GymStatus;
+  /** ID Discord de l'auteur (null pour une action automatique) */
+  actorId: string | null;
+  /** Nom affiché de l'auteur */
+  actorName: string;
+  /** Motif d'un statut particulier */
+  reason?: string | null;
+  /** Date du changement (ISO 8601) */
+  timestamp: string;
+}
+
+/**
+ * Filtres applicables à l'historique.
+ */
+export interface StatusHistoryFilter {
+  /** Ne garder que les actions de ce membre */
+  actorId?: string;
+  /** Début de la période (inclus) */
+  from?: Date;
+  /** Fin de la période (exclue) */
+  to?: Date;
+}
+
+/**
+ * Temps d'ouverture cumulé sur une période (jour ou semaine).
+ */
+export interface OpenTimeEntry {
+  /** Clé de la période (AAAA-MM-JJ pour un jour, AAAA-Sxx pour une semaine) */
+  period: string;
+  /** Durée d'ouverture en millisecondes */
+  openMs: number;
+}
+
+/**
+ * Statistiques de temps d'ouverture.
+ */
+export interface OpenTimeSummary {
+  /** Temps d'ouverture par jour, du plus ancien au plus récent */
+  perDay: OpenTimeEntry[];
+  /** Temps d'ouverture par semaine ISO, de la plus ancienne à la plus récente */
+  perWeek: OpenTimeEntry[];
+  /** Temps d'ouverture total */
+  totalMs: number;
+}
+
+/**
+ * Historique des changements de statut de la salle.
+ *
+ * Responsabilités:
+ * - Enregistrer chaque changement de statut avec son auteur
+ * - Filtrer les transitions par membre et par période
+ * - Calculer le temps d'ouverture par jour et par semaine
+ *
+ * @example
+ * ```typescript
+ * const history = new StatusHistory(store, 'Europe/Paris');
+ * await history.load();
+ * const summary = history.computeOpenTime({ from, to });
+ * ```
+ */
+export class StatusHistory {
+  /** Transitions enregistrées, de la plus ancienne à la plus récente */
+  private transitions: StatusTransition[] = [];
+
+  /**
+   * Crée une nouvelle instance de l'historique.
+   *
+   * @param {JsonStore<StatusTransition[]>} store - Stockage local de l'historique
+   * @param {string} timeZone - Timezone utilisée pour découper les jours (format IANA)
+   */
+  constructor(
+    private readonly store: JsonStore<StatusTransition[]>,
+    private readonly timeZone: string
+  ) {}
+
+  /**
+   * Charge l'historique sauvegardé.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand l'historique est chargé
+   */
+  async load(): Promise<void> {
+    const saved = await this.store.read();
+    this.transitions = saved ?? [];
+  }
+
+  /**
+   * Enregistre une transition et sauvegarde l'historique.
+   *
+   * @param {StatusTransition} transition - Transition à enregistrer
+   */
+  record(transition: StatusTransition): void {
+    this.transitions.push(transition);
+    if (this.transitions.length > MAX_TRANSITIONS) {
+      this.transitions.splice(0, this.transitions.length - MAX_TRANSITIONS);
+    }
+
+    this.store.write(this.transitions).catch(error => {
+      logger.error('Impossible de sauvegarder l\'historique du statut.', error);
+    });
+  }
+
+  /**
+   * Récupère les transitions correspondant aux filtres, de la plus récente à la plus ancienne.
+   *
+   * @param {StatusHistoryFilter} filter - Filtres à appliquer
+   * @returns {StatusTransition[]} Transitions filtrées
+   */
+  getTransitions(filter: StatusHistoryFilter = {}): StatusTransition[] {
+    return this.transitions
+      .filter(transition => {
+        const time = new Date(transition.timestamp).getTime();
+        if (filter.actorId && transition.actorId !== filter.actorId) {
+          return false;
+        }
+        if (filter.from && time < filter.from.getTime()) {
+          return false;
+        }
+        if (filter.to && time >= filter.to.getTime()) {
+          return false;
+        }
+        return true;
+      })
+      .reverse();
+  }
+
+  /**
+   * Calcule le temps d'ouverture par jour et par semaine.
+   * Avec un filtre par membre, seules les ouvertures effectuées par ce membre sont comptées.
+   * Une ouverture encore en cours est comptée jusqu'à maintenant.
+   *
+   * @param {StatusHistoryFilter} filter - Filtres à appliquer
+   * @param {Date} now - Date de référence pour une ouverture en cours
+   * @returns {OpenTimeSummary} Temps d'ouverture cumulés
+   */
+  computeOpenTime(filter: StatusHistoryFilter = {}, now: Date = new Date()): OpenTimeSummary {
+    const perDay = new Map<string, number>();
+
+    for (const [start, end] of this.getOpenIntervals(filter.actorId, now)) {
+      const clippedStart = Math.max(start, filter.from?.getTime() ?? start);
+      const clippedEnd = Math.min(end, filter.to?.getTime() ?? end);
+
+      let cursor = clippedStart;
+      while (cursor < clippedEnd) {
+        const day = formatDayKey(new Date(cursor), this.timeZone);
+        const dayEnd = Math.min(startOfDay(addDays(day, 1), this.timeZone).getTime(), clippedEnd);
+        perDay.set(day, (perDay.get(day) ?? 0) + (dayEnd - cursor));
+        cursor = dayEnd;
+      }
+    }
+
+    const perWeek = new Map<string, number>();
+    let totalMs = 0;
+    for (const [day, openMs] of perDay) {
+      const week = formatWeekKey(day);
+      perWeek.set(week, (perWeek.get(week) ?? 0) + openMs);
+      totalMs += openMs;
+    }
+
+    return {
+      perDay: toSortedEntries(perDay),
+      perWeek: toSortedEntries(perWeek),
+      totalMs
+    };
+  }
+
+  /**
+   * Construit l'embed du rapport d'historique (commande `/stats history`).
+   *
+   * @param {StatusHistoryFilter} filter - Filtres à appliquer
+   * @param {number} limit - Nombre de transitions à lister
+   * @param {string} scope - Description des filtres appliqués
+   * @returns {EmbedBuilder} Embed Discord du rapport
+   */
+  buildReportEmbed(filter: StatusHistoryFilter, limit: number, scope: string): EmbedBuilder {
+    const transitions = this.getTransitions(filter).slice(0, limit);
+    const summary = this.computeOpenTime(filter);
+
+    const lines = transitions.map(transition => {
+      const time = Math.floor(new Date(transition.timestamp).getTime() / 1000);
+      const reason = transition.reason ? ` — ${transition.reason}` : '';
+      return `<t:${time}:f> — **${transition.status}** (avant: ${transition.previousStatus}) par ${transition.actorName}${reason}`;
+    });
+
+    const shown: string[] = [];
+    for (const line of lines) {
+      // Réserve la place de la mention des entrées non affichées
+      if ([scope, '', ...shown, line].join('\n').length > MAX_DESCRIPTION_LENGTH - 50) {
+        break;
+      }
+      shown.push(line);
+    }
+    if (shown.length < lines.length) {
+      shown.push(`… ${lines.length - shown.length} entrée(s) non affichée(s).`);
+    }
+
+    const formatEntries = (entries: OpenTimeEntry[]): string =>
+      entries.length > 0
+        ? entries
+            .slice(-MAX_REPORT_PERIODS)
+            .map(entry => `${entry.period} : ${formatDuration(entry.openMs)}`)
+            .join('\n')
+        : 'Aucune ouverture';
+
+    return new EmbedBuilder()
+      .setTitle('Historique de la salle de sport')
+      .setDescription(
+        `${scope}\n\n${shown.length > 0 ? shown.join('\n') : 'Aucun changement de statut sur la période.'}`
+      )
+      .addFields(
+        { name: 'Temps d\'ouverture par jour', value: formatEntries(summary.perDay), inline: true },
+        { name: 'Temps d\'ouverture par semaine', value: formatEntries(summary.perWeek), inline: true }
+      )
+      .setFooter({ text: `Temps d'ouverture total : ${formatDuration(summary.totalMs)}` })
+      .setColor(0xd80c44);
+  }
+
+  /**
+   * Reconstruit les intervalles d'ouverture à partir des transitions.
+   *
+   * @param {string | undefined} actorId - Ne garder que les ouvertures de ce membre
+   * @param {Date} now - Fin d'une ouverture encore en cours
+   * @returns {Array<[number, number]>} Intervalles [début, fin] en millisecondes
+   * @private
+   */
+  private getOpenIntervals(actorId: string | undefined, now: Date): Array<[number, number]> {
+    const intervals: Array<[number, number]> = [];
+    let openedAt: number | null = null;
+    let openedBy: string | null = null;
+
+    for (const transition of this.transitions) {
+      const time = new Date(transition.timestamp).getTime();
+
+      if (transition.status === 'Ouverte' && openedAt === null) {
+        openedAt = time;
+        openedBy = transition.actorId;
+      } else if (transition.status !== 'Ouverte' && openedAt !== null) {
+        if (!actorId || openedBy === actorId) {
+          intervals.push([openedAt, time]);
+        }
+        openedAt = null;
+        openedBy = null;
+      }
+    }
+
+    if (openedAt !== null && (!actorId || openedBy === actorId)) {
+      intervals.push([openedAt, now.getTime()]);
+    }
+
+    return intervals;
+  }
+}
+
+/**
+ * Calcule la clé de semaine ISO (AAAA-Sxx) d'un jour.
+ *
+ * @param {string} dayKey - Jour au format AAAA-MM-JJ
+ * @returns {string} Clé de la semaine
+ */
+function formatWeekKey(dayKey: string): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const weekday = date.getUTCDay() || 7;
+  // Le jeudi de la semaine détermine l'année ISO
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${date.getUTCFullYear()}-S${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Formate une durée en heures et minutes (ex: "3 h 05 min").
+ *
+ * @param {number} ms - Durée en millisecondes
+ * @returns {string} Durée formatée
+ */
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0
+    ? `${hours} h ${String(minutes).padStart(2, '0')} min`
+    : `${minutes} min`;
+}
+
+/**
+ * Convertit une map de durées en entrées triées par période.
+ *
+ * @param {Map<string, number>} values - Durées par période
+ * @returns {OpenTimeEntry[]} Entrées triées
+ */
+function toSortedEntries(values: Map<string, number>): OpenTimeEntry[] {
+  return [...values.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, openMs]) => ({ period, openMs }));
+}
@@ -0,0 +1,185 @@
+import {
+  ActivityType,
+  ChannelType,
+  Client,
+  VoiceChannel
+} from 'discord.js';
+
+import { config, GymStatus } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { GymStatusManager, GymStatusSnapshot } from './gymStatusManager';
+
+/**
+ * Délai minimal entre deux renommages du salon vocal.
+ * Discord n'autorise que 2 renommages par salon toutes les 10 minutes.
+ */
+const RENAME_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Pastille affichée devant chaque statut.
+ */
+const STATUS_EMOJIS: Record<GymStatus, string> = {
+  Ouverte: '🟢',
+  Fermée: '🔴',
+  Maintenance: '🟠',
+  'Réservée (événement)': '🔵',
+  'Fermeture exceptionnelle': '⛔'
+};
+
+/**
+ * Texte du statut personnalisé du bot pour chaque statut.
+ */
+const PRESENCE_LABELS: Record<GymStatus, string> = {
+  Ouverte: 'Salle ouverte',
+  Fermée: 'Salle fermée',
+  Maintenance: 'Salle en maintenance',
+  'Réservée (événement)': 'Salle réservée (événement)',
+  'Fermeture exceptionnelle': 'Fermeture exceptionnelle'
+};
+
+/**
+ * Recopie le statut de la salle dans la présence du bot et dans le nom d'un salon vocal.
+ *
+ * Responsabilités:
+ * - Mettre à jour le statut personnalisé du bot (ex: "🟢 Salle ouverte")
+ * - Renommer le salon vocal configuré (ex: "🟢 Ouverte – 3 présents")
+ * - Regrouper les changements rapprochés pour respecter la limite de renommage de Discord
+ *
+ * @example
+ * ```typescript
+ * const statusMirror = new StatusMirrorService(client, statusManager);
+ * await statusMirror.initialize();
+ * ```
+ */
+export class StatusMirrorService {
+  /** Nom en attente d'application sur le salon vocal */
+  private pendingName: string | null = null;
+  /** Renommage programmé */
+  private renameTimer: NodeJS.Timeout | null = null;
+  /** Date du dernier renommage effectué (ms) */
+  private lastRenameAt = 0;
+
+  /**
+   * Crée une nouvelle instance du service de recopie du statut.
+   *
+   * @param {Client} client - Client Discord
+   * @param {GymStatusManager} statusManager - Gestionnaire du statut de la salle
+   */
+  constructor(
+    private readonly client: Client,
+    private readonly statusManager: GymStatusManager
+  ) {}
+
+  /**
+   * S'abonne aux changements de statut et applique le statut actuel.
+   * Verrouille le salon vocal (connexion interdite à @everyone) s'il est configuré.
+   * À appeler après la restauration du statut.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand le statut actuel est appliqué
+   */
+  async initialize(): Promise<void> {
+    this.statusManager.onChange(snapshot => this.apply(snapshot));
+
+    const channel = await this.fetchVoiceChannel();
+    if (channel) {
+      try {
+        await channel.permissionOverwrites.edit(channel.guild.roles.everyone, { Connect: false });
+      } catch (error) {
+        logger.warn('Impossible de verrouiller le salon vocal de statut.', error);
+      }
+    }
+
+    this.apply(this.statusManager.snapshot);
+  }
+
+  /**
+   * Applique un statut à la présence du bot et programme le renommage du salon vocal.
+   *
+   * @param {GymStatusSnapshot} snapshot - Statut à afficher
+   * @private
+   */
+  private apply(snapshot: GymStatusSnapshot): void {
+    const emoji = STATUS_EMOJIS[snapshot.status];
+    const label = `${emoji} ${PRESENCE_LABELS[snapshot.status]}`;
+
+    this.client.user?.setPresence({
+      activities: [{ name: label, state: label, type: ActivityType.Custom }],
+      status: snapshot.status === 'Ouverte' ? 'online' : 'idle'
+    });
+
+    if (!config.status.voiceChannelId) {
+      return;
+    }
+
+    const count = snapshot.present.length;
+    const name = snapshot.status === 'Ouverte'
+      ? `${emoji} Ouverte – ${count} présent${count > 1 ? 's' : ''}`
+      : `${emoji} ${snapshot.status}`;
+
+    this.scheduleRename(name);
+  }
+
+  /**
+   * Programme le renommage du salon vocal.
+   * Seul le dernier nom demandé est appliqué, au plus tôt après le délai minimal.
+   *
+   * @param {string} name - Nouveau nom du salon
+   * @private
+   */
+  private scheduleRename(name: string): void {
+    this.pendingName = name;
+    if (this.renameTimer) {
+      return;
+    }
+
+    const delay = Math.max(0, this.lastRenameAt + RENAME_INTERVAL_MS - Date.now());
+    this.renameTimer = setTimeout(() => {
+      this.renameTimer = null;
+      this.flushRename().catch(error => {
+        logger.error('Erreur lors du renommage du salon vocal de statut.', error);
+      });
+    }, delay);
+  }
+
+  /**
+   * Applique le nom en attente au salon vocal s'il diffère du nom actuel.
+   *
+   * @private
+   */
+  private async flushRename(): Promise<void> {
+    const name = this.pendingName;
+    this.pendingName = null;
+    if (!name) {
+      return;
+    }
+
+    const channel = await this.fetchVoiceChannel();
+    if (!channel || channel.name === name) {
+      return;
+    }
+
+    this.lastRenameAt = Date.now();
+    await channel.setName(name, 'Mise à jour du statut de la salle');
+    logger.info(`Salon vocal de statut renommé: ${name}`);
+  }
+
+  /**
+   * Récupère le salon vocal configuré.
+   *
+   * @returns {Promise<VoiceChannel | null>} Salon vocal ou null s'il n'est pas configuré ou introuvable
+   * @private
+   */
+  private async fetchVoiceChannel(): Promise<VoiceChannel | null> {
+    if (!config.status.voiceChannelId) {
+      return null;
+    }
+
+    const channel = await this.client.channels.fetch(config.status.voiceChannelId).catch(() => null);
+    if (!channel || channel.type !== ChannelType.GuildVoice) {
+      logger.warn(`Salon vocal de statut introuvable: ${config.status.voiceChannelId}`);
+      return null;
+    }
+
+    return channel as VoiceChannel;
+  }
+}
@@ -0,0 +1,78 @@
+import { JsonStore } from '../../utils/jsonStore';
+import { logger } from '../../utils/logger';
+
+/**
+ * Nombre maximal de passages conservés dans l'historique.
+ */
+const MAX_VISITS = 20000;
+
+/**
+ * Passage d'un membre à la salle, de son arrivée à son départ.
+ */
+export interface PresenceVisit {
+  /** ID Discord du membre */
+  userId: string;
+  /** Date d'arrivée (ISO 8601) */
+  start: string;
+  /** Date de départ, manuel ou automatique (ISO 8601) */
+  end: string;
+}
+
+/**
+ * Historique des passages à la salle ("J'arrive" / "Je pars").
+ *
+ * Permet de vérifier a posteriori qu'un membre inscrit sur un créneau est bien venu.
+ *
+ * @example
+ * ```typescript
+ * const visits = new VisitHistory(store);
+ * await visits.load();
+ * visits.record({ userId, start, end });
+ * ```
+ */
+export class VisitHistory {
+  /** Passages enregistrés, dans l'ordre des départs */
+  private visits: PresenceVisit[] = [];
+
+  /**
+   * Crée une nouvelle instance de l'historique des passages.
+   *
+   * @param {JsonStore<PresenceVisit[]>} store - Stockage local de l'historique
+   */
+  constructor(private readonly store: JsonStore<PresenceVisit[]>) {}
+
+  /**
+   * Charge l'historique sauvegardé.
+   *
+   * @returns {Promise<void>} Promise qui se résout quand l'historique est chargé
+   */
+  async load(): Promise<void> {
+    const saved = await this.store.read();
+    this.visits = saved ?? [];
+  }
+
+  /**
+   * Enregistre un passage et sauvegarde l'historique.
+   *
+   * @param {PresenceVisit} visit - Passage à enregistrer
+   */
+  record(visit: PresenceVisit): void {
+    this.visits.push(visit);
+    if (this.visits.length > MAX_VISITS) {
+      this.visits.splice(0, this.visits.length - MAX_VISITS);
+    }
+
+    this.store.write(this.visits).catch(error => {
+      logger.error('Impossible de sauvegarder l\'historique des passages.', error);
+    });
+  }
+
+  /**
+   * Récupère les passages enregistrés, dans l'ordre des départs.
+   *
+   * @returns {PresenceVisit[]} Passages enregistrés
+   */
+  getVisits(): PresenceVisit[] {
+    return [...this.visits];
+  }
+}
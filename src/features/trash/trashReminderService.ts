@@ -3,7 +3,6 @@ import {
   ChannelType,
   Client,
   Guild,
-  MessageReaction,
   TextChannel,
   User
 } from 'discord.js';
@@ -11,6 +10,9 @@ import cron from 'node-cron';
 
 import { config } from '../../config/env';
 import { logger } from '../../utils/logger';
+import { ClosureCalendar } from '../planning/closureCalendar';
+import { describeDay, getTodayKey } from '../planning/planningCalendar';
+import { PlanningStore } from '../planning/planningStore';
 
 /**
  * Type de poubelle pour les rappels.
@@ -39,10 +41,11 @@ interface TrashReminderConfig {
  * - Programmer les rappels automatiques (mercredi 20h pour noir, jeudi 20h pour jaune)
  * - Récupérer les utilisateurs inscrits sur les créneaux pertinents du planning
  * - Envoyer les alertes avec @mention dans le channel dédié
+ * - Ne rien envoyer les jours de fermeture de la salle
  *
  * @example
  * ```typescript
- * const trashReminderService = new TrashReminderService(client, guildId);
+ * const trashReminderService = new TrashReminderService(client, guildId, planningStore, closures);
  * await trashReminderService.initialize();
  * ```
  */
@@ -84,10 +87,14 @@ export class TrashReminderService {
    *
    * @param {Client} client - Client Discord
    * @param {string} guildId - ID de la guilde Discord
+   * @param {PlanningStore} planningStore - Modèle de données du planning
+   * @param {ClosureCalendar} closures - Calendrier des fermetures de la salle
    */
   constructor(
     private readonly client: Client,
-    private readonly guildId: string
+    private readonly guildId: string,
+    private readonly planningStore: PlanningStore,
+    private readonly closures: ClosureCalendar
   ) {}
 
   /**
@@ -215,6 +222,12 @@ export class TrashReminderService {
    * @private
    */
   private async sendReminder(reminderConfig: TrashReminderConfig): Promise<void> {
+    const today = getTodayKey(config.timezone);
+    if (this.closures.getClosure(today)) {
+      logger.info(`Salle fermée le ${today}, pas de rappel pour la poubelle ${reminderConfig.type}.`);
+      return;
+    }
+
     if (!this.channelId) {
       logger.error('Channel de rappels non initialisé.');
       return;
@@ -230,7 +243,6 @@ export class TrashReminderService {
 
     // Récupérer les utilisateurs inscrits sur les créneaux pertinents
     const users = await this.getUsersFromPlanning(
-      guild,
       reminderConfig.dayOfWeek,
       reminderConfig.timeSlots
     );
@@ -252,108 +264,32 @@ export class TrashReminderService {
   }
 
   /**
-   * Récupère les utilisateurs inscrits sur les créneaux spécifiés du planning pour un jour donné.
+   * Récupère les utilisateurs inscrits sur les créneaux spécifiés du planning du jour.
+   * Le rappel se déclenche le jour même où il faut sortir la poubelle,
+   * on consulte donc toujours le planning d'aujourd'hui.
    *
-   * @param {Guild} guild - Guilde Discord
-   * @param {number} dayOfWeek - Jour de la semaine (0 = dimanche, 1 = lundi, ..., 6 = samedi)
+   * @param {number} dayOfWeek - Jour de la semaine configuré (0 = dimanche, 1 = lundi, ..., 6 = samedi)
    * @param {string[]} timeSlots - Créneaux horaires à vérifier
    * @returns {Promise<User[]>} Liste des utilisateurs inscrits
    * @private
    */
-  private async getUsersFromPlanning(
-    guild: Guild,
-    dayOfWeek: number,
-    timeSlots: string[]
-  ): Promise<User[]> {
-    // Calculer la date du jour concerné
-    // Le rappel se déclenche à 20h pour rappeler de sortir la poubelle ce soir
-    // Donc on veut toujours le planning du jour même
-    const today = new Date();
-    const currentDayOfWeek = today.getDay();
-    
-    // Pour le test ou en production, on cherche toujours le planning d'aujourd'hui
-    // car le rappel se déclenche le jour même où il faut sortir la poubelle
-    const targetDate = new Date(today);
-    targetDate.setHours(0, 0, 0, 0); // Normaliser à minuit pour la comparaison
-
-    // Formater le nom du channel comme dans PlanningManager
-    const dayLabel = targetDate.toLocaleDateString('fr-FR', {
-      weekday: 'long',
-      day: 'numeric',
-      month: 'long'
-    }).toLowerCase();
-    const channelName = dayLabel.replace(/\s+/g, '-');
-    
-    logger.info(`Recherche du channel de planning: ${channelName} (jour actuel: ${currentDayOfWeek}, jour cible config: ${dayOfWeek})`);
-
-    // Trouver le channel de planning
-    const planningCategory = guild.channels.cache.find(
-      channel =>
-        channel.type === ChannelType.GuildCategory &&
-        channel.name === config.planning.categoryName
-    );
+  private async getUsersFromPlanning(dayOfWeek: number, timeSlots: string[]): Promise<User[]> {
+    const today = describeDay(getTodayKey(config.timezone));
+    logger.info(`Recherche des inscrits du ${today.label} (jour cible config: ${dayOfWeek})`);
 
-    if (!planningCategory) {
-      logger.warn(`Catégorie de planning introuvable: ${config.planning.categoryName}`);
+    if (!this.planningStore.getDay(today.dateKey)) {
+      logger.warn(`Aucun planning pour ${today.label}`);
       return [];
     }
 
-    const planningChannel = guild.channels.cache.find(
-      channel =>
-        channel.parentId === planningCategory.id &&
-        channel.type === ChannelType.GuildText &&
-        channel.name === channelName
-    ) as TextChannel | undefined;
-
-    if (!planningChannel) {
-      logger.warn(`Channel de planning introuvable: ${channelName}`);
-      return [];
-    }
-
-    logger.info(`Channel de planning trouvé: ${planningChannel.name} (ID: ${planningChannel.id})`);
-
-    // Récupérer tous les messages du channel
-    const messages = await planningChannel.messages.fetch({ limit: 100 });
-    logger.info(`Nombre de messages récupérés: ${messages.size}`);
-    const usersSet = new Set<string>();
-
-    // Pour chaque créneau horaire à vérifier
-    for (const timeSlot of timeSlots) {
-      logger.info(`Recherche du créneau: ${timeSlot}`);
-      // Trouver le message correspondant au créneau
-      const slotMessage = messages.find(msg => msg.content === timeSlot);
-      
-      if (!slotMessage) {
-        logger.warn(`Message pour le créneau ${timeSlot} introuvable`);
-        continue;
-      }
-
-      logger.info(`Message trouvé pour ${timeSlot} (ID: ${slotMessage.id})`);
-
-      // Récupérer les réactions ✅
-      const reaction = slotMessage.reactions.cache.get('✅');
-      if (!reaction) {
-        logger.warn(`Aucune réaction ✅ trouvée pour le créneau ${timeSlot}`);
-        continue;
-      }
-
-      // Récupérer tous les utilisateurs qui ont réagi
-      const reactedUsers = await reaction.users.fetch();
-      logger.info(`Nombre d'utilisateurs ayant réagi sur ${timeSlot}: ${reactedUsers.size}`);
-      for (const user of reactedUsers.values()) {
-        // Ignorer le bot
-        if (!user.bot) {
-          usersSet.add(user.id);
-          logger.info(`Utilisateur ajouté: ${user.username} (${user.id})`);
-        }
-      }
-    }
-    
-    logger.info(`Total d'utilisateurs uniques trouvés: ${usersSet.size}`);
+    const userIds = new Set(
+      timeSlots.flatMap(timeSlot => this.planningStore.getParticipants(today.dateKey, timeSlot))
+    );
+    logger.info(`Total d'utilisateurs uniques trouvés: ${userIds.size}`);
 
     // Convertir les IDs en objets User
     const users: User[] = [];
-    for (const userId of usersSet) {
+    for (const userId of userIds) {
       try {
         const user = await this.client.users.fetch(userId);
         users.push(user);
@@ -365,4 +301,3 @@ export class TrashReminderService {
     return users;
   }
 }
-
@@ -1,12 +1,32 @@
+import path from 'node:path';
+
 import { createClient } from './discord/client';
 import { registerGuildCommands } from './discord/commands';
 import { GymStatusManager } from './features/status/gymStatusManager';
+import { StatusHistory } from './features/status/statusHistory';
+import { AutoCloseService } from './features/status/autoCloseService';
+import { PresenceTracker } from './features/status/presenceTracker';
+import { VisitHistory } from './features/status/visitHistory';
+import { StatusMirrorService } from './features/status/statusMirror';
 import { GateService } from './features/gate/gateService';
 import { RulesService } from './features/rules/rulesService';
+import { AttendanceArchive } from './features/planning/attendanceArchive';
+import { BookingReminderService } from './features/planning/bookingReminderService';
+import { CalendarFeedService } from './features/planning/calendarFeedService';
+import { ClosureCalendar, loadHolidayFile } from './features/planning/closureCalendar';
+import { CoverageAlertService } from './features/planning/coverageAlertService';
 import { PlanningManager } from './features/planning/planningManager';
+import { PlanningOverviewService } from './features/planning/planningOverviewService';
+import { PlanningSchedule } from './features/planning/planningSchedule';
+import { PlanningStore } from './features/planning/planningStore';
+import { RecurringBookingService } from './features/planning/recurringBookingService';
+import { AttendanceStats } from './features/stats/attendanceStats';
 import { TrashReminderService } from './features/trash/trashReminderService';
+import { StatusApiServer } from './features/api/statusApiServer';
+import { WebhookNotifier } from './features/api/webhookNotifier';
 import { registerEvents } from './events/registerEvents';
 import { config } from './config/env';
+import { JsonStore } from './utils/jsonStore';
 import { logger } from './utils/logger';
 
 /**
@@ -28,25 +48,135 @@ import { logger } from './utils/logger';
 async function main(): Promise<void> {
   const client = createClient();
 
+  const statusHistory = new StatusHistory(
+    new JsonStore(path.join(config.storage.dataDir, 'gym-status-history.json')),
+    config.timezone
+  );
+
+  const visitHistory = new VisitHistory(
+    new JsonStore(path.join(config.storage.dataDir, 'gym-visits.json'))
+  );
+  const presenceTracker = new PresenceTracker(
+    new JsonStore(path.join(config.storage.dataDir, 'gym-presence.json')),
+    visitHistory,
+    config.status.presence.maxStayMinutes
+  );
+
   const statusManager = new GymStatusManager(
     config.status.images,
-    config.status.defaultStatus
+    config.status.defaultStatus,
+    new JsonStore(path.join(config.storage.dataDir, 'gym-status.json')),
+    statusHistory,
+    presenceTracker
   );
 
+  const autoCloseService = new AutoCloseService(client, statusManager);
+  const statusMirror = new StatusMirrorService(client, statusManager);
   const gateService = new GateService(config.twilio);
   const rulesService = new RulesService();
-  const planningManager = new PlanningManager(client, config.discord.guildId);
-  const trashReminderService = new TrashReminderService(client, config.discord.guildId);
+  const planningStore = new PlanningStore(
+    new JsonStore(path.join(config.storage.dataDir, 'planning.json'))
+  );
+  const planningSchedule = await PlanningSchedule.load(
+    config.planning.scheduleFile,
+    config.planning.timeSlots,
+    config.planning.slotCapacity
+  );
+  const planningClosures = new ClosureCalendar(
+    new JsonStore(path.join(config.storage.dataDir, 'planning-closures.json')),
+    await loadHolidayFile(config.planning.holidaysFile, config.timezone)
+  );
+  const attendanceArchive = new AttendanceArchive(
+    new JsonStore(path.join(config.storage.dataDir, 'planning-archive.json'))
+  );
+  const recurringBookingService = new RecurringBookingService(
+    client,
+    planningStore,
+    new JsonStore(path.join(config.storage.dataDir, 'planning-recurring.json')),
+    config.planning.recurringSummaryCron
+  );
+  const planningManager = new PlanningManager(
+    client,
+    config.discord.guildId,
+    planningStore,
+    planningSchedule,
+    planningClosures,
+    attendanceArchive,
+    recurringBookingService
+  );
+  const calendarFeedService = new CalendarFeedService(
+    planningManager,
+    new JsonStore(path.join(config.storage.dataDir, 'planning-calendars.json'))
+  );
+  await calendarFeedService.load();
+  const planningOverviewService = new PlanningOverviewService(
+    client,
+    planningStore,
+    planningManager,
+    new JsonStore(path.join(config.storage.dataDir, 'planning-overview.json'))
+  );
+  const bookingReminderService = new BookingReminderService(
+    client,
+    planningStore,
+    statusManager,
+    new JsonStore(path.join(config.storage.dataDir, 'planning-reminders.json')),
+    config.planning.reminderMinutes
+  );
+  const coverageAlertService = new CoverageAlertService(
+    client,
+    config.discord.guildId,
+    planningStore,
+    planningClosures,
+    new JsonStore(path.join(config.storage.dataDir, 'planning-coverage.json'))
+  );
+  const trashReminderService = new TrashReminderService(
+    client,
+    config.discord.guildId,
+    planningStore,
+    planningClosures
+  );
+  const attendanceStats = new AttendanceStats(
+    attendanceArchive,
+    planningStore,
+    visitHistory,
+    presenceTracker,
+    config.timezone
+  );
+  const webhookNotifier = new WebhookNotifier(config.api.webhookUrls, config.api.webhookSecret);
+  const apiServer = config.api.port !== null
+    ? new StatusApiServer(statusManager, planningManager, calendarFeedService)
+    : null;
 
   registerEvents({
     client,
     statusManager,
+    statusHistory,
+    presenceTracker,
+    autoCloseService,
+    statusMirror,
     gateService,
     rulesService,
     planningManager,
-    trashReminderService
+    bookingReminderService,
+    coverageAlertService,
+    recurringBookingService,
+    calendarFeedService,
+    planningOverviewService,
+    trashReminderService,
+    attendanceStats,
+    webhookNotifier,
+    apiServer
   });
 
+  // Le serveur répond 503 jusqu'à l'initialisation du planning (événement `ready`)
+  if (apiServer && config.api.port !== null) {
+    try {
+      await apiServer.start(config.api.port, config.api.host);
+    } catch (error) {
+      logger.error('Impossible de démarrer l\'API HTTP.', error);
+    }
+  }
+
   try {
     await registerGuildCommands();
   } catch (error) {
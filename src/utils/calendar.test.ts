@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { addDays, formatDayKey, startOfDay, zonedTime } from './calendar';
+
+const PARIS = 'Europe/Paris';
+
+describe('zonedTime', () => {
+  it('convertit une heure locale en hiver et en été', () => {
+    assert.equal(zonedTime('2026-01-15', 18 * 60, PARIS).toISOString(), '2026-01-15T17:00:00.000Z');
+    assert.equal(zonedTime('2026-07-15', 18 * 60, PARIS).toISOString(), '2026-07-15T16:00:00.000Z');
+  });
+
+  it('gère le passage à l\'heure d\'été (2026-03-29)', () => {
+    assert.equal(zonedTime('2026-03-29', 0, PARIS).toISOString(), '2026-03-28T23:00:00.000Z');
+    assert.equal(zonedTime('2026-03-29', 2 * 60, PARIS).toISOString(), '2026-03-29T01:00:00.000Z');
+    assert.equal(zonedTime('2026-03-29', 3 * 60, PARIS).toISOString(), '2026-03-29T01:00:00.000Z');
+    assert.equal(zonedTime('2026-03-29', 8 * 60, PARIS).toISOString(), '2026-03-29T06:00:00.000Z');
+  });
+
+  it('décale d\'une heure une heure inexistante (2026-03-29 02:30)', () => {
+    assert.equal(zonedTime('2026-03-29', 2 * 60 + 30, PARIS).toISOString(), '2026-03-29T01:30:00.000Z');
+  });
+
+  it('gère le passage à l\'heure d\'hiver (2026-10-25)', () => {
+    assert.equal(zonedTime('2026-10-25', 0, PARIS).toISOString(), '2026-10-24T22:00:00.000Z');
+    assert.equal(zonedTime('2026-10-25', 3 * 60, PARIS).toISOString(), '2026-10-25T02:00:00.000Z');
+    assert.equal(zonedTime('2026-10-25', 8 * 60, PARIS).toISOString(), '2026-10-25T07:00:00.000Z');
+  });
+
+  it('retient la première occurrence d\'une heure ambiguë (2026-10-25 02:00 et 02:30)', () => {
+    assert.equal(zonedTime('2026-10-25', 2 * 60, PARIS).toISOString(), '2026-10-25T00:00:00.000Z');
+    assert.equal(zonedTime('2026-10-25', 2 * 60 + 30, PARIS).toISOString(), '2026-10-25T00:30:00.000Z');
+    assert.equal(
+      zonedTime('2026-11-01', 60 + 30, 'America/New_York').toISOString(),
+      '2026-11-01T05:30:00.000Z'
+    );
+  });
+
+  it('interprète 1440 minutes comme minuit du jour suivant', () => {
+    assert.equal(zonedTime('2026-10-25', 24 * 60, PARIS).toISOString(), startOfDay('2026-10-26', PARIS).toISOString());
+    assert.equal(zonedTime('2026-03-28', 24 * 60, PARIS).toISOString(), startOfDay('2026-03-29', PARIS).toISOString());
+  });
+});
+
+describe('startOfDay', () => {
+  it('donne des journées de 23 et 25 heures aux changements d\'heure', () => {
+    const hours = (dayKey: string): number =>
+      (startOfDay(addDays(dayKey, 1), PARIS).getTime() - startOfDay(dayKey, PARIS).getTime()) / 3600000;
+
+    assert.equal(hours('2026-03-29'), 23);
+    assert.equal(hours('2026-10-25'), 25);
+    assert.equal(hours('2026-10-19'), 24);
+  });
+});
+
+describe('formatDayKey', () => {
+  it('change de jour à minuit heure locale, et non à minuit UTC', () => {
+    assert.equal(formatDayKey(new Date('2026-10-19T21:59:59Z'), PARIS), '2026-10-19');
+    assert.equal(formatDayKey(new Date('2026-10-19T22:00:00Z'), PARIS), '2026-10-20');
+    assert.equal(formatDayKey(new Date('2026-01-15T22:59:59Z'), PARIS), '2026-01-15');
+    assert.equal(formatDayKey(new Date('2026-01-15T23:00:00Z'), PARIS), '2026-01-16');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Utilitaires de calendrier dans une timezone donnée.
+ *
+ * Les jours sont manipulés sous forme de clés AAAA-MM-JJ, indépendantes du fuseau
+ * de la machine ; les conversions vers des instants tiennent compte des changements
+ * d'heure (un jour peut durer 23 ou 25 heures).
+ *
+ * @example
+ * ```typescript
+ * const today = formatDayKey(new Date(), 'Europe/Paris');
+ * const eveningStart = zonedTime(today, 18 * 60, 'Europe/Paris');
+ * ```
+ */
+
+/**
+ * Durée d'une journée sans changement d'heure, en millisecondes.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Vérifie qu'une chaîne est une date au format AAAA-MM-JJ.
+ *
+ * @param {string} value - Valeur à vérifier
+ * @returns {boolean} true si la date est valide
+ */
+export function isDayKey(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return false;
+  }
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Formate une date en clé de jour (AAAA-MM-JJ) dans la timezone donnée.
+ *
+ * @param {Date} date - Date à formater
+ * @param {string} timeZone - Timezone (format IANA)
+ * @returns {string} Clé du jour
+ */
+export function formatDayKey(date: Date, timeZone: string): string {
+  return date.toLocaleDateString('en-CA', { timeZone });
+}
+
+/**
+ * Formate une clé de jour en label français (ex: "lundi 15 janvier").
+ *
+ * @param {string} dayKey - Jour au format AAAA-MM-JJ
+ * @returns {string} Label du jour, en minuscules
+ */
+export function formatDayLabel(dayKey: string): string {
+  return toUtcDate(dayKey)
+    .toLocaleDateString('fr-FR', {
+      timeZone: 'UTC',
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long'
+    })
+    .toLowerCase();
+}
+
+/**
+ * Calcule le jour de la semaine d'une clé de jour.
+ *
+ * @param {string} dayKey - Jour au format AAAA-MM-JJ
+ * @returns {number} Jour de la semaine (0 = dimanche, 6 = samedi)
+ */
+export function getWeekday(dayKey: string): number {
+  return toUtcDate(dayKey).getUTCDay();
+}
+
+/**
+ * Ajoute un nombre de jours à une clé de jour.
+ *
+ * @param {string} dayKey - Jour au format AAAA-MM-JJ
+ * @param {number} days - Nombre de jours à ajouter (peut être négatif)
+ * @returns {string} Nouvelle clé de jour
+ */
+export function addDays(dayKey: string, days: number): string {
+  const date = toUtcDate(dayKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Calcule l'instant correspondant à une heure locale d'un jour dans la timezone donnée.
+ * Une heure qui n'existe pas (passage à l'heure d'été) est décalée d'une heure ;
+ * pour une heure qui existe deux fois (passage à l'heure d'hiver), la première occurrence
+ * est retenue.
+ *
+ * @param {string} dayKey - Jour au format AAAA-MM-JJ
+ * @param {number} minutes - Minutes depuis minuit, heure locale (1440 = minuit du jour suivant)
+ * @param {string} timeZone - Timezone (format IANA)
+ * @returns {Date} Instant correspondant
+ */
+export function zonedTime(dayKey: string, minutes: number, timeZone: string): Date {
+  const wallClock = toUtcDate(dayKey).getTime() + minutes * 60 * 1000;
+
+  // Décalages en vigueur autour de l'heure demandée : une heure existant deux fois
+  // correspond à deux instants valides, dont le premier est retenu
+  const offsets = [-DAY_MS, DAY_MS].map(delta => getTimeZoneOffset(new Date(wallClock + delta), timeZone));
+  const candidates = offsets
+    .map(offset => wallClock - offset)
+    .filter(instant => wallClock - getTimeZoneOffset(new Date(instant), timeZone) === instant);
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  // Le décalage peut différer à l'instant estimé (changement d'heure)
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Calcule l'instant de début (minuit) d'un jour dans la timezone donnée.
+ *
+ * @param {string} dayKey - Jour au format AAAA-MM-JJ
+ * @param {string} timeZone - Timezone (format IANA)
+ * @returns {Date} Instant correspondant à minuit heure locale
+ */
+export function startOfDay(dayKey: string, timeZone: string): Date {
+  return zonedTime(dayKey, 0, timeZone);
+}
+
+/**
+ * Convertit une clé de jour en date à minuit UTC.
+ *
+ * @param {string} dayKey - Jour au format AAAA-MM-JJ
+ * @returns {Date} Date à minuit UTC
+ */
+function toUtcDate(dayKey: string): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Calcule le décalage d'une timezone par rapport à UTC à un instant donné.
+ *
+ * @param {Date} date - Instant de référence
+ * @param {string} timeZone - Timezone (format IANA)
+ * @returns {number} Décalage en millisecondes (positif à l'est de UTC)
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(part => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second')
+  );
+
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
@@ -0,0 +1,129 @@
+import { addDays } from './calendar';
+
+/**
+ * Longueur maximale d'une ligne iCalendar, en octets (RFC 5545).
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Événement d'un calendrier iCalendar.
+ */
+export interface IcsEvent {
+  /** Identifiant unique et stable de l'événement */
+  uid: string;
+  /** Titre de l'événement */
+  summary: string;
+  /** Description de l'événement */
+  description?: string;
+  /** Lien associé à l'événement */
+  url?: string;
+  /** Début et fin de l'événement, ou jour entier (AAAA-MM-JJ) */
+  when: { start: Date; end: Date } | { day: string };
+}
+
+/**
+ * Génère un calendrier iCalendar (`.ics`).
+ *
+ * Les heures sont écrites en UTC : elles ont été calculées dans la timezone du planning,
+ * et chaque application de calendrier les affiche dans la timezone de l'appareil.
+ *
+ * @param {string} name - Nom du calendrier
+ * @param {IcsEvent[]} events - Événements du calendrier
+ * @param {string} timeZone - Timezone du planning (format IANA), indiquée aux applications
+ * @param {Date} now - Date de génération (défaut: maintenant)
+ * @returns {string} Contenu du fichier `.ics`
+ *
+ * @example
+ * ```typescript
+ * const ics = buildIcsCalendar('Salle', [{ uid: 'a@gym', summary: 'Séance', when: { start, end } }], 'Europe/Paris');
+ * ```
+ */
+export function buildIcsCalendar(name: string, events: IcsEvent[], timeZone: string, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Weston Gym Bot//Planning//FR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`
+  ];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatUtc(now)}`);
+
+    if ('day' in event.when) {
+      lines.push(
+        `DTSTART;VALUE=DATE:${event.when.day.replace(/-/g, '')}`,
+        `DTEND;VALUE=DATE:${addDays(event.when.day, 1).replace(/-/g, '')}`
+      );
+    } else {
+      lines.push(`DTSTART:${formatUtc(event.when.start)}`, `DTEND:${formatUtc(event.when.end)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Formate un instant en date-heure UTC iCalendar (ex: "20250115T170000Z").
+ *
+ * @param {Date} date - Instant à formater
+ * @returns {string} Date-heure UTC
+ */
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Échappe un texte pour une propriété iCalendar.
+ *
+ * @param {string} text - Texte à échapper
+ * @returns {string} Texte échappé
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Replie une ligne trop longue sur plusieurs lignes commençant par une espace,
+ * sans couper un caractère multi-octets.
+ *
+ * @param {string} line - Ligne à replier
+ * @returns {string} Ligne repliée
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Les lignes de continuation commencent par une espace, comptée dans la limite
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,70 @@
+import path from 'node:path';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+
+import { logger } from './logger';
+
+/**
+ * Stockage local d'un document JSON dans un fichier.
+ *
+ * Les écritures sont sérialisées et atomiques (fichier temporaire puis renommage)
+ * pour éviter un fichier corrompu si le bot s'arrête pendant une sauvegarde.
+ *
+ * @example
+ * ```typescript
+ * const store = new JsonStore<{ count: number }>('data/compteur.json');
+ * const data = await store.read();
+ * await store.write({ count: (data?.count ?? 0) + 1 });
+ * ```
+ */
+export class JsonStore<T> {
+  /** Chaîne des écritures en cours, pour garantir leur ordre */
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Crée un nouveau stockage JSON.
+   *
+   * @param {string} filePath - Chemin du fichier JSON
+   */
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Lit le document stocké.
+   *
+   * @returns {Promise<T | null>} Document lu ou null si le fichier n'existe pas ou est illisible
+   */
+  async read(): Promise<T | null> {
+    await this.pendingWrite;
+
+    try {
+      const raw = await readFile(this.filePath, { encoding: 'utf8' });
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Impossible de lire le fichier de données ${this.filePath}`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Écrit le document, en remplaçant le contenu précédent.
+   *
+   * @param {T} data - Document à sauvegarder
+   * @returns {Promise<void>} Promise qui se résout quand le fichier est écrit
+   * @throws {Error} Si l'écriture échoue (permissions, disque plein, etc.)
+   */
+  write(data: T): Promise<void> {
+    const content = JSON.stringify(data, null, 2);
+    const next = this.pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, content, { encoding: 'utf8' });
+        await rename(tempPath, this.filePath);
+      });
+
+    this.pendingWrite = next;
+    return next;
+  }
+}
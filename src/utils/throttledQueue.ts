@@ -0,0 +1,54 @@
+/**
+ * File d'exécution séquentielle avec un délai minimal entre deux tâches.
+ *
+ * Étale les appels à l'API Discord d'une synchronisation (création de salons,
+ * envoi de messages) pour rester sous les limites de débit, même quand
+ * beaucoup de changements sont nécessaires.
+ *
+ * @example
+ * ```typescript
+ * const queue = new ThrottledQueue(250);
+ * await queue.run(() => channel.send('Bonjour'));
+ * ```
+ */
+export class ThrottledQueue {
+  /** Chaîne des tâches en cours, pour garantir leur ordre */
+  private pending: Promise<void> = Promise.resolve();
+  /** Fin de la dernière tâche (timestamp en millisecondes) */
+  private lastRun = 0;
+
+  /**
+   * Crée une nouvelle file d'exécution.
+   *
+   * @param {number} intervalMs - Délai minimal entre la fin d'une tâche et le début de la suivante
+   */
+  constructor(private readonly intervalMs: number) {}
+
+  /**
+   * Ajoute une tâche à la file.
+   * L'échec d'une tâche n'empêche pas l'exécution des suivantes.
+   *
+   * @param {() => Promise<T>} task - Tâche à exécuter
+   * @returns {Promise<T>} Résultat de la tâche, une fois exécutée
+   */
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(async () => {
+      const wait = this.lastRun + this.intervalMs - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+
+      try {
+        return await task();
+      } finally {
+        this.lastRun = Date.now();
+      }
+    });
+
+    this.pending = next.then(
+      () => undefined,
+      () => undefined
+    );
+    return next;
+  }
+}